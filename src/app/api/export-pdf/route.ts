@@ -1,48 +0,0 @@
-import { NextResponse } from 'next/server';
-import { NextRequest } from 'next/server';
-
-export async function POST(req: NextRequest) {
-  try {
-    const { documentId, accessToken } = await req.json();
-
-    if (!documentId || !accessToken) {
-      return NextResponse.json(
-        { error: 'Missing required parameters' },
-        { status: 400 }
-      );
-    }
-
-    const response = await fetch(
-      `https://www.googleapis.com/drive/v3/files/${documentId}/export?mimeType=application/pdf`,
-      {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('Google API Error:', error);
-      throw new Error('Failed to generate PDF');
-    }
-
-    const pdfBlob = await response.blob();
-    const arrayBuffer = await pdfBlob.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    return new NextResponse(buffer, {
-      headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': 'attachment; filename="document.pdf"',
-      },
-    });
-
-  } catch (error) {
-    console.error('Error in export-pdf API:', error);
-    return NextResponse.json(
-      { error: 'Failed to generate PDF' },
-      { status: 500 }
-    );
-  }
-}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getSessionAccessToken } from '@/lib/auth';
+import { getReadableFile, exportDocument } from '@/utils/advancedDocsUtils';
+import { EXPORT_FORMATS, isExportFormat, getExportFilename, getContentDisposition } from '@/utils/exportUtils';
+
+/**
+ * Export a document in one of EXPORT_FORMATS.
+ *
+ * Body: { documentId: string, format?: 'pdf' | 'docx' | 'odt' | 'rtf' | 'txt' | 'epub' | 'html', title?: string }
+ * The file is named after the document title unless a title is given.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const accessToken = await getSessionAccessToken();
+
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    // A malformed body is the caller's mistake, not a server error
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid request body: expected a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { documentId, format = 'pdf', title } = body;
+
+    if (!documentId || typeof documentId !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Unsupported format. Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const file = await getReadableFile(documentId, accessToken);
+    if (!file) {
+      return NextResponse.json(
+        { error: 'Document not found or not accessible' },
+        { status: 404 }
+      );
+    }
+
+    const { mimeType } = EXPORT_FORMATS[format];
+    const data = await exportDocument(documentId, mimeType, accessToken);
+    const buffer = Buffer.from(data);
+
+    return new NextResponse(buffer, {
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Disposition': getContentDisposition(
+          getExportFilename(typeof title === 'string' && title ? title : file.name, format)
+        ),
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in export API:', error);
+    return NextResponse.json(
+      { error: 'Failed to export document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { getHistoryStore } from '@/lib/historyStore';
+
+/**
+ * One record of the signed-in user's generation history (404 for other users' records).
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const record = await getHistoryStore().get(user.email, id);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'History record not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(record);
+
+  } catch (error) {
+    console.error('Error in history API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load history record' },
+      { status: 500 }
+    );
+  }
+}
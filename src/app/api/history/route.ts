@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { addGenerationRecord, getHistoryStore } from '@/lib/historyStore';
+import { isGenerationReport } from '@/utils/historyUtils';
+
+// Records per page of GET /api/history
+const PAGE_SIZE = 25;
+
+/**
+ * The signed-in user's generation history, newest first.
+ *
+ * Query: before? - the nextCursor of the previous page
+ * Returns: { records: [{ id, templateId, templateName, templateRevision?, title, values, documentId, format, source, user, createdAt, regeneratedFrom? }], nextCursor? }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getSessionUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const before = req.nextUrl.searchParams.get('before') || undefined;
+    return NextResponse.json(await getHistoryStore().list(user.email, { limit: PAGE_SIZE, before }));
+
+  } catch (error) {
+    console.error('Error in history API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load history' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Record a document generated in the browser.
+ *
+ * Body: { templateId, title, values, documentId, format: 'gdoc' | 'pdf' | 'docx' | ..., source: 'form' | 'batch' | 'api' }
+ * The user, template name, template revision and time are filled in by the server.
+ * Returns: the stored record (201)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getSessionUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    // Malformed JSON is answered like any other invalid report
+    const report = await req.json().catch(() => null);
+
+    if (!isGenerationReport(report)) {
+      return NextResponse.json(
+        { error: 'Invalid request body: expected templateId, title, values, documentId, format and source' },
+        { status: 400 }
+      );
+    }
+
+    const record = await addGenerationRecord(report, user);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Template or document not found or not accessible' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(record, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in history API:', error);
+    return NextResponse.json(
+      { error: 'Failed to record generation' },
+      { status: 500 }
+    );
+  }
+}
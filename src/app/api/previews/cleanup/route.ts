@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getSessionAccessToken } from '@/lib/auth';
+import { purgeStalePreviews, DEFAULT_PREVIEW_MAX_AGE_MS, MIN_PREVIEW_MAX_AGE_MS } from '@/utils/previewUtils';
+
+const MIN_MAX_AGE_MINUTES = MIN_PREVIEW_MAX_AGE_MS / (60 * 1000);
+
+/**
+ * Trash the signed-in user's orphaned preview documents.
+ *
+ * Body (optional): { maxAgeMinutes?: number } - only previews older than this are removed (default 60, minimum 10)
+ * Returns: { trashed: number }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const accessToken = await getSessionAccessToken();
+
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const maxAgeMinutes = body?.maxAgeMinutes;
+
+    if (maxAgeMinutes !== undefined && (typeof maxAgeMinutes !== 'number' || !(maxAgeMinutes >= MIN_MAX_AGE_MINUTES))) {
+      return NextResponse.json(
+        { error: `"maxAgeMinutes" must be a number of at least ${MIN_MAX_AGE_MINUTES}` },
+        { status: 400 }
+      );
+    }
+
+    const trashed = await purgeStalePreviews(
+      accessToken,
+      maxAgeMinutes !== undefined ? maxAgeMinutes * 60 * 1000 : DEFAULT_PREVIEW_MAX_AGE_MS
+    );
+
+    return NextResponse.json({ trashed });
+
+  } catch (error) {
+    console.error('Error in preview cleanup API:', error);
+    return NextResponse.json(
+      { error: 'Failed to clean up preview documents' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { addGenerationRecord, getHistoryStore } from '@/lib/historyStore';
+import { generateDocument, exportDocument, getReadableFile } from '@/utils/advancedDocsUtils';
+import { isVariableValues } from '@/utils/googleDocsUtils';
+import { EXPORT_FORMATS, getExportFilename } from '@/utils/exportUtils';
+
+/**
+ * Generate a document from a template.
+ *
+ * Body: { values: { [name]: string | Array<Record<string, string>> }, title?: string, includePdf?: boolean, regeneratedFrom?: string }
+ * The document is recorded in the user's generation history (regeneratedFrom is the ID of the record it repeats).
+ * Returns: { documentId, title, editUrl, historyId?, pdf?: { filename, mimeType, data (base64) } }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getSessionUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: templateId } = await params;
+    // A malformed body is the caller's mistake, not a server error
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid request body: expected a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { values, title, includePdf, regeneratedFrom } = body;
+    const { accessToken } = user;
+
+    if (
+      !isVariableValues(values) ||
+      (title !== undefined && typeof title !== 'string') ||
+      (regeneratedFrom !== undefined && typeof regeneratedFrom !== 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid request body: "values" must map variable names to strings or lists of objects' },
+        { status: 400 }
+      );
+    }
+
+    if (regeneratedFrom && !(await getHistoryStore().get(user.email, regeneratedFrom))) {
+      return NextResponse.json(
+        { error: 'History record not found' },
+        { status: 404 }
+      );
+    }
+
+    const template = await getReadableFile(templateId, accessToken);
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Template not found or not accessible' },
+        { status: 404 }
+      );
+    }
+
+    const documentTitle = title || `${template.name} - Generated ${new Date().toLocaleDateString()}`;
+    const { documentId, unresolvedPlaceholders } = await generateDocument(templateId, documentTitle, values, accessToken);
+
+    let pdf;
+    if (includePdf) {
+      const { mimeType } = EXPORT_FORMATS.pdf;
+      const data = await exportDocument(documentId, mimeType, accessToken);
+      pdf = {
+        filename: getExportFilename(documentTitle, 'pdf'),
+        mimeType,
+        data: Buffer.from(data).toString('base64')
+      };
+    }
+
+    // The document exists either way, so a history failure does not fail the request
+    const record = await addGenerationRecord(
+      { templateId, title: documentTitle, values, documentId, format: includePdf ? 'pdf' : 'gdoc', source: 'api' },
+      user,
+      regeneratedFrom
+    ).catch(error => {
+      console.error('Error recording generation:', error);
+      return null;
+    });
+
+    return NextResponse.json({
+      documentId,
+      title: documentTitle,
+      editUrl: `https://docs.google.com/document/d/${documentId}/edit`,
+      historyId: record?.id,
+      unresolvedPlaceholders,
+      pdf
+    });
+
+  } catch (error) {
+    console.error('Error in generate API:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate document' },
+      { status: 500 }
+    );
+  }
+}
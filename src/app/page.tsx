@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
 import NextAuthLogin from '@/components/NextAuthLogin';
 import DocumentGenerator from '@/components/DocumentGenerator';
 
@@ -12,6 +13,16 @@ export default function Home() {
     picture: string;
     accessToken: string;
   } | null>(null);
+  const { data: session } = useSession();
+  const needsReauth = session?.error === 'RefreshAccessTokenError';
+
+  // Keep the generator's token in sync when NextAuth refreshes it in the background
+  useEffect(() => {
+    const accessToken = session?.accessToken;
+    if (accessToken) {
+      setUser(prev => prev && prev.accessToken !== accessToken ? { ...prev, accessToken } : prev);
+    }
+  }, [session?.accessToken]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
@@ -25,7 +36,7 @@ export default function Home() {
           </p>
         </header>
 
-        {!isAuthenticated || !user ? (
+        {!isAuthenticated || !user || needsReauth ? (
           <NextAuthLogin 
             onAuthenticated={(user) => {
               setIsAuthenticated(true);
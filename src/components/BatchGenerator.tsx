@@ -0,0 +1,325 @@
+'use client';
+
+import { useState } from 'react';
+import { TemplateVariable } from '@/utils/googleDocsUtils';
+import {
+  parseCsv,
+  fetchSheetRows,
+  parseSpreadsheetId,
+  autoMapColumns,
+  runBatchGeneration,
+  type TabularData,
+  type ColumnMapping,
+  type BatchRowResult
+} from '@/utils/batchUtils';
+
+interface BatchGeneratorProps {
+  title: string;
+  templateDocId: string;
+  variables: TemplateVariable[];
+  accessToken: string;
+  onBack: () => void;
+}
+
+export default function BatchGenerator({
+  title,
+  templateDocId,
+  variables: allVariables,
+  accessToken,
+  onBack
+}: BatchGeneratorProps) {
+  // A CSV row holds one value per column, so list and table variables cannot be mapped;
+  // computed (expression) variables are filled in from the others
+  const variables = allVariables.filter(v => v.type !== 'list' && v.type !== 'table' && !v.expression);
+
+  const [source, setSource] = useState<'csv' | 'sheet'>('csv');
+  const [sheetUrl, setSheetUrl] = useState('');
+  const [sheetRange, setSheetRange] = useState('Sheet1');
+  const [data, setData] = useState<TabularData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [titlePattern, setTitlePattern] = useState(
+    variables.length > 0 ? `${title} - {{${variables[0].name}}}` : title
+  );
+  const [results, setResults] = useState<BatchRowResult[]>([]);
+  const [isLoadingData, setIsLoadingData] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const loadData = (loaded: TabularData) => {
+    if (loaded.headers.length === 0 || loaded.rows.length === 0) {
+      setError('No data rows found. The first row must contain column headers.');
+      setData(null);
+      return;
+    }
+    setData(loaded);
+    setMapping(autoMapColumns(loaded.headers, variables));
+    setResults([]);
+  };
+
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    try {
+      loadData(parseCsv(await file.text()));
+    } catch (err) {
+      console.error('Error reading CSV file:', err);
+      setError('Failed to read CSV file. Please check the file and try again.');
+    }
+  };
+
+  const handleLoadSheet = async () => {
+    setError('');
+    setIsLoadingData(true);
+    try {
+      loadData(await fetchSheetRows(parseSpreadsheetId(sheetUrl), sheetRange, accessToken));
+    } catch (err) {
+      console.error('Error loading sheet:', err);
+      setError('Failed to load Google Sheets range. Please check the link and range.');
+    } finally {
+      setIsLoadingData(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!data) return;
+
+    setError('');
+    setIsRunning(true);
+    try {
+      await runBatchGeneration(templateDocId, titlePattern, data.rows, mapping, accessToken, setResults);
+    } catch (err) {
+      console.error('Error running batch generation:', err);
+      setError('Batch generation stopped unexpectedly. Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const unmappedCount = variables.filter(v => (mapping[v.name] ?? -1) < 0).length;
+  const completedCount = results.filter(r => r.status === 'success' || r.status === 'error').length;
+  const successCount = results.filter(r => r.status === 'success').length;
+  const failedCount = results.filter(r => r.status === 'error').length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-gray-900 mb-2">
+            Batch Generate
+          </h3>
+          <p className="text-gray-600">
+            Create one document per row from a CSV file or a Google Sheets range
+          </p>
+        </div>
+        <div className="text-sm text-gray-500">
+          Template: <span className="font-medium">{title}</span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Data Source */}
+      <div className="mb-6 border border-gray-200 rounded-lg p-6">
+        <div className="flex space-x-4 mb-4">
+          {(['csv', 'sheet'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setSource(option)}
+              disabled={isRunning}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 ${
+                source === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option === 'csv' ? 'Upload CSV' : 'Google Sheets'}
+            </button>
+          ))}
+        </div>
+
+        {source === 'csv' ? (
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleCsvUpload}
+            disabled={isRunning}
+            className="block w-full text-sm text-gray-700"
+          />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              value={sheetUrl}
+              onChange={(e) => setSheetUrl(e.target.value)}
+              placeholder="Spreadsheet link or ID"
+              disabled={isRunning}
+              className="md:col-span-2 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
+            />
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={sheetRange}
+                onChange={(e) => setSheetRange(e.target.value)}
+                placeholder="Sheet1!A1:F50"
+                disabled={isRunning}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
+              />
+              <button
+                type="button"
+                onClick={handleLoadSheet}
+                disabled={isRunning || isLoadingData || !sheetUrl}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                {isLoadingData ? 'Loading...' : 'Load'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Column Mapping */}
+      {data && (
+        <div className="mb-6 border border-gray-200 rounded-lg p-6">
+          <h4 className="text-lg font-medium text-gray-900 mb-1">Map Columns</h4>
+          <p className="text-sm text-gray-600 mb-4">
+            {data.rows.length} row{data.rows.length !== 1 ? 's' : ''} loaded.
+            {unmappedCount > 0 && ` ${unmappedCount} variable${unmappedCount !== 1 ? 's are' : ' is'} not mapped and will be left empty.`}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            {variables.map((variable) => (
+              <div key={variable.name} className="flex items-center space-x-3">
+                <code className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs flex-shrink-0">
+                  {`{{${variable.name}}}`}
+                </code>
+                <span className="text-sm text-gray-600">←</span>
+                <select
+                  value={mapping[variable.name] ?? -1}
+                  onChange={(e) => setMapping(prev => ({ ...prev, [variable.name]: Number(e.target.value) }))}
+                  disabled={isRunning}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-black"
+                >
+                  <option value={-1}>(not mapped)</option>
+                  {data.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <label htmlFor="batch-title-pattern" className="block text-sm font-medium text-gray-700 mb-2">
+            Document title
+          </label>
+          <input
+            id="batch-title-pattern"
+            type="text"
+            value={titlePattern}
+            onChange={(e) => setTitlePattern(e.target.value)}
+            disabled={isRunning}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Variables like <code className="bg-gray-100 px-1 rounded">{'{{client_name}}'}</code> are filled per row
+          </p>
+        </div>
+      )}
+
+      {/* Progress & Summary */}
+      {results.length > 0 && (
+        <div className="mb-6 border border-gray-200 rounded-lg">
+          <div className="border-b border-gray-200 px-6 py-4 bg-gray-50">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-lg font-semibold text-gray-900">
+                {isRunning ? 'Generating...' : 'Summary'}
+              </h4>
+              <span className="text-sm text-gray-600">
+                {completedCount} / {results.length} done · {successCount} succeeded · {failedCount} failed
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all"
+                style={{ width: `${(completedCount / results.length) * 100}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="px-6 py-2 text-left font-medium">Row</th>
+                  <th className="px-6 py-2 text-left font-medium">Title</th>
+                  <th className="px-6 py-2 text-left font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => (
+                  <tr key={result.rowIndex} className="border-t border-gray-100">
+                    <td className="px-6 py-2 text-gray-600">{result.rowIndex + 1}</td>
+                    <td className="px-6 py-2 text-gray-900">{result.title}</td>
+                    <td className="px-6 py-2">
+                      {result.status === 'success' && result.documentUrl && (
+                        <a
+                          href={result.documentUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 underline hover:text-blue-700"
+                        >
+                          Open document
+                        </a>
+                      )}
+                      {result.status === 'success' && result.unresolvedPlaceholders && result.unresolvedPlaceholders.length > 0 && (
+                        <span className="ml-2 text-yellow-700">
+                          Unfilled: {result.unresolvedPlaceholders.join(', ')}
+                        </span>
+                      )}
+                      {result.status === 'error' && (
+                        <span className="text-red-600">Failed: {result.error}</span>
+                      )}
+                      {result.status === 'running' && <span className="text-blue-600">Generating...</span>}
+                      {result.status === 'pending' && <span className="text-gray-500">Waiting</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex justify-between items-center">
+        <button
+          onClick={onBack}
+          disabled={isRunning}
+          className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          Back to Form
+        </button>
+        <button
+          onClick={handleGenerate}
+          disabled={isRunning || !data}
+          className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center"
+        >
+          {isRunning ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              Generating...
+            </>
+          ) : (
+            `Generate ${data ? data.rows.length : 0} Document${data?.rows.length === 1 ? '' : 's'}`
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
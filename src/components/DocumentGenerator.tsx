@@ -1,11 +1,20 @@
 /* eslint-disable @next/next/no-img-element */
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import TemplatePicker from './TemplatePicker';
 import VariableForm from './VariableForm';
 import DocumentPreview from './DocumentPreview';
-import { fetchDocumentContent, replaceVariables, type DocumentContent } from '@/utils/googleDocsUtils';
+import BatchGenerator from './BatchGenerator';
+import LivePreview from './LivePreview';
+import TemplateSchemaEditor from './TemplateSchemaEditor';
+import FormPresets from './FormPresets';
+import GenerationHistory from './GenerationHistory';
+import { fetchDocumentContent, type DocumentContent, type VariableValues } from '@/utils/googleDocsUtils';
+import { discardGeneratedDocuments } from '@/utils/previewUtils';
+import { applyTemplateSchema, loadTemplateSchema, type TemplateSchema } from '@/utils/templateSchemaUtils';
+import { deleteDraft, getDefaultValues, loadDraft, saveDraft } from '@/utils/draftUtils';
+import type { GenerationRecord } from '@/utils/historyUtils';
 
 interface Template {
   id: string;
@@ -26,14 +35,113 @@ interface DocumentGeneratorProps {
 }
 
 export default function DocumentGenerator({ user, onSignOut }: DocumentGeneratorProps) {
-  const [currentStep, setCurrentStep] = useState<'template' | 'form' | 'preview'>('template');
+  const [currentStep, setCurrentStep] = useState<'template' | 'form' | 'preview' | 'batch' | 'history'>('template');
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
   const [documentContent, setDocumentContent] = useState<DocumentContent | null>(null);
-  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [schema, setSchema] = useState<TemplateSchema | null>(null);
+  const [isEditingSchema, setIsEditingSchema] = useState(false);
+  const [variableValues, setVariableValues] = useState<VariableValues>({});
+  // Values the form is (re)filled with: a restored draft, an applied preset, or the values kept while on another step
+  const [formSeed, setFormSeed] = useState<VariableValues>({});
+  const [draftStatus, setDraftStatus] = useState<{ savedAt: string; restored: boolean } | null>(null);
+  // Shown above the form, e.g. when a duplicated document's template has changed since
+  const [notice, setNotice] = useState<string>('');
+  const [focusRequest, setFocusRequest] = useState<{ name: string }>();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
 
+  // Batch generation shares the final step with the single-document preview
+  const activeStep = currentStep === 'batch' ? 'preview' : currentStep;
+
+  // Memoized: the form resets its values whenever its variables change
+  const formVariables = useMemo(
+    () => applyTemplateSchema(documentContent?.variables || [], schema),
+    [documentContent, schema]
+  );
+
+  // What the form holds before anything is typed; such values are not worth a draft
+  const defaultValues = useMemo(() => getDefaultValues(formVariables), [formVariables]);
+
+  // Save the form as a draft shortly after the user stops typing
+  useEffect(() => {
+    if (currentStep !== 'form' || !selectedTemplate || !documentContent) return;
+    const timeout = setTimeout(() => {
+      try {
+        const draft = saveDraft(user.email, selectedTemplate.id, selectedTemplate.name, variableValues, defaultValues);
+        setDraftStatus(prev => draft ? { savedAt: draft.savedAt, restored: prev?.restored ?? false } : null);
+      } catch (err) {
+        console.error('Error saving draft:', err);
+      }
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [currentStep, selectedTemplate, documentContent, variableValues, defaultValues, user.email]);
+
+  // The form is remounted when coming back from another step, so it starts from the current values
+  const returnToForm = () => {
+    setFormSeed(variableValues);
+    setCurrentStep('form');
+  };
+
+  const handleChangeTemplate = () => {
+    // Unsaved preview copies of this template are no longer needed
+    discardGeneratedDocuments(user.accessToken);
+    setCurrentStep('template');
+    setDocumentContent(null);
+    setSchema(null);
+    setIsEditingSchema(false);
+    setVariableValues({});
+    setFormSeed({});
+    setDraftStatus(null);
+    setNotice('');
+  };
+
+  const handleShowHistory = () => {
+    handleChangeTemplate();
+    setCurrentStep('history');
+  };
+
+  /**
+   * Load a template's content and schema and open the form, filled from a history record
+   * when duplicating one, otherwise from the template's saved draft
+   */
+  const loadTemplate = async (template: Template, duplicate?: GenerationRecord) => {
+    setSelectedTemplate(template);
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const content = await fetchDocumentContent(template.id, user.accessToken);
+      // A schema that cannot be read leaves the form as the template describes it
+      const templateSchema = await loadTemplateSchema(template.id, user.accessToken).catch(err => {
+        console.error('Error loading template schema:', err);
+        return null;
+      });
+      setSchema(templateSchema);
+      if (duplicate) {
+        setFormSeed(duplicate.values);
+        setDraftStatus(null);
+        setNotice(duplicate.templateRevision && duplicate.templateRevision !== content.document.revisionId
+          ? `The template has changed since "${duplicate.title}" was generated. Check the form before exporting.`
+          : `Filled in from "${duplicate.title}".`);
+      } else {
+        const draft = loadDraft(user.email, template.id);
+        setFormSeed(draft?.values ?? {});
+        setDraftStatus(draft ? { savedAt: draft.savedAt, restored: true } : null);
+      }
+      setDocumentContent(content);
+      setCurrentStep('form');
+    } catch (err) {
+      console.error('Error fetching document content:', err);
+      setError('Failed to load template content. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSignOut = () => {
+    // Trash unsaved preview copies while the token is still valid
+    discardGeneratedDocuments(user.accessToken);
+    
     // Clear stored tokens
     localStorage.removeItem('google_access_token');
     
@@ -48,7 +156,7 @@ export default function DocumentGenerator({ user, onSignOut }: DocumentGenerator
   };
 
   return (
-    <div className="max-w-6xl mx-auto">
+    <div className="max-w-7xl mx-auto">
       {/* Header with user info */}
       <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
         <div className="flex items-center justify-between">
@@ -65,12 +173,20 @@ export default function DocumentGenerator({ user, onSignOut }: DocumentGenerator
               <p className="text-gray-600">{user.email}</p>
             </div>
           </div>
-          <button
-            onClick={handleSignOut}
-            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
-          >
-            Sign Out
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleShowHistory}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+            >
+              History
+            </button>
+            <button
+              onClick={handleSignOut}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+            >
+              Sign Out
+            </button>
+          </div>
         </div>
       </div>
 
@@ -79,13 +195,13 @@ export default function DocumentGenerator({ user, onSignOut }: DocumentGenerator
         <div className="flex items-center justify-center space-x-8">
           {[
             { key: 'template', label: 'Select Template', number: 1 },
-            { key: 'form', label: 'Fill Form', number: 2 },
-            { key: 'preview', label: 'Preview & Export', number: 3 },
+            { key: 'form', label: 'Fill & Preview', number: 2 },
+            { key: 'preview', label: 'Export', number: 3 },
           ].map((step) => (
             <div key={step.key} className="flex items-center">
               <div
                 className={`w-10 h-10 rounded-full flex items-center justify-center text-sm font-medium ${
-                  currentStep === step.key
+                  activeStep === step.key
                     ? 'bg-blue-600 text-white'
                     : 'bg-gray-200 text-gray-600'
                 }`}
@@ -93,7 +209,7 @@ export default function DocumentGenerator({ user, onSignOut }: DocumentGenerator
                 {step.number}
               </div>
               <span className={`ml-3 text-sm font-medium ${
-                currentStep === step.key ? 'text-blue-600' : 'text-gray-500'
+                activeStep === step.key ? 'text-blue-600' : 'text-gray-500'
               }`}>
                 {step.label}
               </span>
@@ -144,22 +260,7 @@ export default function DocumentGenerator({ user, onSignOut }: DocumentGenerator
         {currentStep === 'template' && (
           <TemplatePicker
             accessToken={user.accessToken}
-            onTemplateSelected={async (template) => {
-              setSelectedTemplate(template);
-              setIsLoading(true);
-              setError('');
-              
-              try {
-                const content = await fetchDocumentContent(template.id, user.accessToken);
-                setDocumentContent(content);
-                setCurrentStep('form');
-              } catch (err) {
-                console.error('Error fetching document content:', err);
-                setError('Failed to load template content. Please try again.');
-              } finally {
-                setIsLoading(false);
-              }
-            }}
+            onTemplateSelected={(template) => loadTemplate(template)}
             onBack={() => {
               // No back action from template step
             }}
@@ -177,16 +278,26 @@ export default function DocumentGenerator({ user, onSignOut }: DocumentGenerator
                   Template: <span className="font-medium">{selectedTemplate.name}</span>
                 </p>
               </div>
-              <button
-                onClick={() => {
-                  setCurrentStep('template');
-                  setDocumentContent(null);
-                  setVariableValues({});
-                }}
-                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
-              >
-                Change Template
-              </button>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setIsEditingSchema(!isEditingSchema)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Customize Form
+                </button>
+                <button
+                  onClick={() => setCurrentStep('batch')}
+                  className="px-4 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition-colors"
+                >
+                  Batch Generate
+                </button>
+                <button
+                  onClick={handleChangeTemplate}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Change Template
+                </button>
+              </div>
             </div>
             
             {error && (
@@ -194,18 +305,63 @@ export default function DocumentGenerator({ user, onSignOut }: DocumentGenerator
                 <p className="text-red-800 text-sm">{error}</p>
               </div>
             )}
+
+            {notice && (
+              <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-md">
+                <p className="text-blue-800 text-sm">{notice}</p>
+              </div>
+            )}
             
-            <VariableForm
-              variables={documentContent.variables}
-              onValuesChange={setVariableValues}
-              onSubmit={() => setCurrentStep('preview')}
-              onBack={() => {
-                setCurrentStep('template');
-                setDocumentContent(null);
-                setVariableValues({});
+            {isEditingSchema && (
+              <TemplateSchemaEditor
+                templateId={selectedTemplate.id}
+                templateName={selectedTemplate.name}
+                variables={documentContent.variables}
+                schema={schema}
+                accessToken={user.accessToken}
+                onSaved={(saved) => {
+                  setFormSeed(variableValues);
+                  setSchema(saved);
+                  setIsEditingSchema(false);
+                }}
+                onClose={() => setIsEditingSchema(false)}
+              />
+            )}
+            
+            <FormPresets
+              userEmail={user.email}
+              variables={formVariables}
+              values={variableValues}
+              draftStatus={draftStatus}
+              onApply={setFormSeed}
+              onDiscardDraft={() => {
+                deleteDraft(user.email, selectedTemplate.id);
+                setDraftStatus(null);
+                setFormSeed({});
               }}
-              isLoading={isLoading}
             />
+            
+            {/* Form and preview side by side; the preview follows every change */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+              <VariableForm
+                variables={formVariables}
+                sections={schema?.sections}
+                initialValues={formSeed}
+                onValuesChange={setVariableValues}
+                onSubmit={() => setCurrentStep('preview')}
+                onBack={handleChangeTemplate}
+                isLoading={isLoading}
+                accessToken={user.accessToken}
+                focusRequest={focusRequest}
+              />
+              <div className="lg:sticky lg:top-8">
+                <LivePreview
+                  templateDocument={documentContent.document}
+                  values={variableValues}
+                  onPlaceholderClick={(name) => setFocusRequest({ name })}
+                />
+              </div>
+            </div>
           </div>
         )}
 
@@ -213,10 +369,32 @@ export default function DocumentGenerator({ user, onSignOut }: DocumentGenerator
           <DocumentPreview
             title={documentContent.title}
             templateDocId={selectedTemplate.id}            
-            previewContent={replaceVariables(documentContent.content, variableValues)}
+            templateDocument={documentContent.document}
             values={variableValues}
             accessToken={user.accessToken}
-            onBack={() => setCurrentStep('form')}
+            onBack={returnToForm}
+          />
+        )}
+
+        {currentStep === 'batch' && selectedTemplate && documentContent && (
+          <BatchGenerator
+            title={documentContent.title}
+            templateDocId={selectedTemplate.id}
+            variables={formVariables}
+            accessToken={user.accessToken}
+            onBack={returnToForm}
+          />
+        )}
+
+        {currentStep === 'history' && (
+          <GenerationHistory
+            onDuplicate={(record) => loadTemplate({
+              id: record.templateId,
+              name: record.templateName,
+              modifiedTime: record.createdAt,
+              mimeType: 'application/vnd.google-apps.document'
+            }, record)}
+            onBack={() => setCurrentStep('template')}
           />
         )}
         </div>
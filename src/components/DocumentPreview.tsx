@@ -1,13 +1,23 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { createFormattedDocument } from '@/utils/advancedDocsUtils';
+import { useState, useMemo } from 'react';
+import { getGeneratedDocument, saveGeneratedDocument } from '@/utils/previewUtils';
+import { renderLocalPreview } from '@/utils/localPreviewUtils';
+import { recordGeneration } from '@/utils/historyUtils';
+import type { VariableValue, VariableValues } from '@/utils/googleDocsUtils';
+import type { GoogleDocument } from '@/types/googleDocs';
+import {
+  EXPORT_FORMATS,
+  getExportFilename,
+  parseContentDispositionFilename,
+  type ExportFormat
+} from '@/utils/exportUtils';
 
 interface DocumentPreviewProps {
   title: string;
   templateDocId: string;  
-  previewContent: string;
-  values: Record<string, string>;
+  templateDocument: GoogleDocument;
+  values: VariableValues;
   accessToken: string;
   onBack: () => void;
 }
@@ -15,8 +25,7 @@ interface DocumentPreviewProps {
 export default function DocumentPreview({ 
   title, 
   templateDocId,
-  
-  previewContent, 
+  templateDocument,
   values, 
   accessToken, 
   onBack 
@@ -24,72 +33,44 @@ export default function DocumentPreview({
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string>('');
   const [generatedDocUrl, setGeneratedDocUrl] = useState<string>('');
-  const [formattedPreview, setFormattedPreview] = useState<string>('');
-  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf');
 
-  // Generate formatted preview when component loads
-  useEffect(() => {
-    const generatePreview = async () => {
-      if (Object.keys(values).length === 0) return;
-      
-      setIsLoadingPreview(true);
-      try {
-        const tempTitle = `${title} - Preview ${Date.now()}`;
-        const { previewHtml } = await createFormattedDocument(
-          templateDocId,
-          tempTitle,
-          values,
-          accessToken
-        );
-        
-        setFormattedPreview(previewHtml);
-        
-        // Clean up the temporary preview document
-        // Note: In production, you might want to keep this for faster re-generation
-        // or implement a cleanup mechanism
-        
-      } catch (err) {
-        console.error('Error generating preview:', err);
-        setError('Failed to generate formatted preview. Using basic preview.');
-        // Fallback to basic preview if formatted preview fails
-        setFormattedPreview('');
-      } finally {
-        setIsLoadingPreview(false);
-      }
-    };
-
-    generatePreview();
-  }, [templateDocId, values, accessToken, title]);
+  // Rendered in the browser from the template; a Drive copy is only made to download or save
+  const { html: formattedPreview, unresolvedPlaceholders } = useMemo(
+    () => renderLocalPreview(templateDocument, values),
+    [templateDocument, values]
+  );
 
-  const handleDownloadPDF = async () => {
+  const handleDownload = async () => {
     try {
       setIsGenerating(true);
       setError('');
       
-      // Create a formatted document with the filled content
+      // Reuse the document generated for the preview
       const newTitle = `${title} - Generated ${new Date().toLocaleDateString()}`;
-      const { documentId } = await createFormattedDocument(
+      const { documentId } = await getGeneratedDocument(
         templateDocId,
-        newTitle,
+        title,
         values,
         accessToken
       );
       
       // Call your API endpoint
-      const response = await fetch('/api/export-pdf', {
+      const response = await fetch('/api/export', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           documentId,
-          accessToken
+          format: exportFormat,
+          title: newTitle
         }),
       });
   
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(error || 'Failed to generate PDF');
+        throw new Error(error || 'Failed to export document');
       }
   
       // Create download link
@@ -97,17 +78,20 @@ export default function DocumentPreview({
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `${newTitle}.pdf`;
+      link.download = parseContentDispositionFilename(response.headers.get('Content-Disposition'))
+        || getExportFilename(newTitle, exportFormat);
       
       // Trigger download
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       window.URL.revokeObjectURL(url);
+
+      recordGeneration({ templateId: templateDocId, title: newTitle, values, documentId, format: exportFormat, source: 'form' });
       
     } catch (err) {
-      console.error('Error generating PDF:', err);
-      setError('Failed to generate PDF. Please try again.');
+      console.error('Error exporting document:', err);
+      setError(`Failed to export ${EXPORT_FORMATS[exportFormat].label}. Please try again.`);
     } finally {
       setIsGenerating(false);
     }
@@ -118,15 +102,18 @@ export default function DocumentPreview({
       setIsGenerating(true);
       setError('');
       
-      // Create a formatted document with the filled content
+      // Keep the previewed document under its final title
       const newTitle = `${title} - Generated ${new Date().toLocaleDateString()}`;
-      const { documentId } = await createFormattedDocument(
+      const documentId = await saveGeneratedDocument(
         templateDocId,
-        newTitle,
+        title,
         values,
+        newTitle,
         accessToken
       );
       
+      recordGeneration({ templateId: templateDocId, title: newTitle, values, documentId, format: 'gdoc', source: 'form' });
+
       const docUrl = `https://docs.google.com/document/d/${documentId}/edit`;
       setGeneratedDocUrl(docUrl);
       
@@ -141,13 +128,11 @@ export default function DocumentPreview({
     }
   };
 
-  // Format content for display with proper line breaks
-  const formatContentForDisplay = (content: string): string => {
-    return content
-      .replace(/\n\n/g, '</p><p>')
-      .replace(/\n/g, '<br>')
-      .replace(/^/, '<p>')
-      .replace(/$/, '</p>');
+  const formatValueForSummary = (value: VariableValue): string => {
+    if (Array.isArray(value)) {
+      return `${value.length} row${value.length !== 1 ? 's' : ''}`;
+    }
+    return value || '(empty)';
   };
 
   return (
@@ -188,6 +173,17 @@ export default function DocumentPreview({
         </div>
       )}
 
+      {unresolvedPlaceholders.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="text-yellow-800 text-sm">
+            {unresolvedPlaceholders.length} placeholder{unresolvedPlaceholders.length !== 1 ? 's were' : ' was'} left unfilled:{' '}
+            {unresolvedPlaceholders.map((placeholder) => (
+              <code key={placeholder} className="bg-yellow-100 px-1 rounded mr-1">{placeholder}</code>
+            ))}
+          </p>
+        </div>
+      )}
+
       {/* Document Preview */}
       <div className="border border-gray-300 rounded-lg mb-6 bg-white shadow-sm">
         {/* Document Header */}
@@ -202,28 +198,12 @@ export default function DocumentPreview({
         
         {/* Document Content */}
         <div className="p-8 min-h-96 max-h-96 overflow-y-auto">
-          {isLoadingPreview ? (
-            <div className="flex items-center justify-center py-12">
-              <div className="flex items-center space-x-3">
-                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
-                <span className="text-gray-600">Generating formatted preview...</span>
-              </div>
-            </div>
-          ) : formattedPreview ? (
-            <div 
-              className="prose prose-sm max-w-none leading-relaxed text-gray-900"
-              dangerouslySetInnerHTML={{ 
-                __html: formattedPreview
-              }}
-            />
-          ) : (
-            <div 
-              className="prose prose-sm max-w-none leading-relaxed text-gray-900"
-              dangerouslySetInnerHTML={{ 
-                __html: formatContentForDisplay(previewContent || 'No content available') 
-              }}
-            />
-          )}
+          <div 
+            className="prose prose-sm max-w-none leading-relaxed text-gray-900"
+            dangerouslySetInnerHTML={{ 
+              __html: formattedPreview || '<p>No content available</p>'
+            }}
+          />
         </div>
         
         {/* Variable Summary */}
@@ -238,7 +218,7 @@ export default function DocumentPreview({
                   </code>
                   <span className="text-sm text-gray-600">→</span>
                   <span className="text-sm font-medium text-gray-900 truncate">
-                    {value || '(empty)'}
+                    {formatValueForSummary(value)}
                   </span>
                 </div>
               ))}
@@ -258,8 +238,19 @@ export default function DocumentPreview({
         </button>
         
         <div className="flex space-x-4">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            disabled={isGenerating}
+            aria-label="Export format"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white disabled:opacity-50"
+          >
+            {Object.entries(EXPORT_FORMATS).map(([key, format]) => (
+              <option key={key} value={key}>{format.label}</option>
+            ))}
+          </select>
           <button
-            onClick={handleDownloadPDF}
+            onClick={handleDownload}
             disabled={isGenerating}
             className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 flex items-center"
           >
@@ -273,7 +264,7 @@ export default function DocumentPreview({
                 <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                 </svg>
-                Download PDF
+                Download {EXPORT_FORMATS[exportFormat].label}
               </>
             )}
           </button>
@@ -306,9 +297,9 @@ export default function DocumentPreview({
           📄 Export Options
         </h4>
         <div className="text-blue-800 text-sm space-y-2">
-          <p><strong>Download PDF:</strong> Creates a PDF file and downloads it to your computer</p>
+          <p><strong>Download:</strong> Creates a PDF, Word, OpenDocument, RTF, plain text, EPUB or zipped HTML file and downloads it to your computer</p>
           <p><strong>Save to Drive:</strong> Creates a new Google Doc in your Drive with the filled content</p>
-          <p><strong>Note:</strong> Both options create a new document - your original template remains unchanged</p>
+          <p><strong>Note:</strong> The preview is rendered in your browser; download and save share one generated copy - your original template remains unchanged</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { TemplateVariable, VariableValues } from '@/utils/googleDocsUtils';
+import {
+  applyPreset,
+  deletePreset,
+  exportUserData,
+  importUserData,
+  listPresets,
+  savePreset,
+  type Preset
+} from '@/utils/draftUtils';
+
+interface FormPresetsProps {
+  userEmail: string;
+  variables: TemplateVariable[];
+  values: VariableValues;
+  draftStatus: { savedAt: string; restored: boolean } | null;
+  onApply: (values: VariableValues) => void;
+  onDiscardDraft: () => void;
+}
+
+export default function FormPresets({
+  userEmail,
+  variables,
+  values,
+  draftStatus,
+  onApply,
+  onDiscardDraft
+}: FormPresetsProps) {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [selectedName, setSelectedName] = useState('');
+  const [newName, setNewName] = useState('');
+  const [isNaming, setIsNaming] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // localStorage is only available in the browser, so presets load after mounting
+  useEffect(() => {
+    setPresets(listPresets(userEmail));
+  }, [userEmail]);
+
+  const run = (action: () => string) => {
+    try {
+      setMessage({ text: action(), isError: false });
+      setPresets(listPresets(userEmail));
+    } catch (err) {
+      console.error('Error updating presets:', err);
+      setMessage({ text: (err as Error).message || 'Failed to update presets', isError: true });
+    }
+  };
+
+  const handleApply = () => {
+    const preset = presets.find(other => other.name === selectedName);
+    if (!preset) return;
+    onApply(applyPreset(variables, values, preset));
+    setMessage({ text: `Applied "${preset.name}"`, isError: false });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => {
+      const preset = savePreset(userEmail, newName, values);
+      setSelectedName(preset.name);
+      setNewName('');
+      setIsNaming(false);
+      return `Saved preset "${preset.name}"`;
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selectedName || !window.confirm(`Delete the preset "${selectedName}"?`)) return;
+    run(() => {
+      deletePreset(userEmail, selectedName);
+      setSelectedName('');
+      return `Deleted "${selectedName}"`;
+    });
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportUserData(userEmail)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'docs-generator-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    run(() => {
+      const counts = importUserData(userEmail, text);
+      return `Imported ${counts.presets} preset${counts.presets !== 1 ? 's' : ''} and ${counts.drafts} draft${counts.drafts !== 1 ? 's' : ''}`;
+    });
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg bg-gray-50 px-4 py-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedName}
+          onChange={(e) => setSelectedName(e.target.value)}
+          aria-label="Preset"
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">{presets.length > 0 ? 'Choose a preset…' : 'No presets yet'}</option>
+          {presets.map(preset => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleApply}
+          disabled={!selectedName}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Apply
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!selectedName}
+          className="px-3 py-1.5 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+        >
+          Delete
+        </button>
+
+        {isNaming ? (
+          <form onSubmit={handleSave} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g. Acme Corp client details"
+              aria-label="Preset name"
+              autoFocus
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="px-3 py-1.5 text-sm border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsNaming(false)}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsNaming(true)}
+            className="px-3 py-1.5 text-sm border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition-colors"
+          >
+            Save as Preset
+          </button>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-white transition-colors"
+          >
+            Export
+          </button>
+          <label className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-white transition-colors cursor-pointer">
+            Import
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <span className="text-gray-500">
+          {draftStatus
+            ? `${draftStatus.restored ? 'Restored your draft. ' : ''}Draft saved ${new Date(draftStatus.savedAt).toLocaleString()}`
+            : 'Your entries are saved as a draft as you type'}
+          {draftStatus && (
+            <button onClick={onDiscardDraft} className="ml-2 text-red-600 hover:text-red-700">
+              Discard Draft
+            </button>
+          )}
+        </span>
+        {message && (
+          <span className={message.isError ? 'text-red-600' : 'text-green-700'}>{message.text}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { VariableValue } from '@/utils/googleDocsUtils';
+import { EXPORT_FORMATS } from '@/utils/exportUtils';
+import {
+  listGenerations,
+  regenerateDocument,
+  type GenerationFormat,
+  type GenerationRecord
+} from '@/utils/historyUtils';
+
+interface GenerationHistoryProps {
+  onDuplicate: (record: GenerationRecord) => void;
+  onBack: () => void;
+}
+
+const SOURCE_LABELS: Record<GenerationRecord['source'], string> = {
+  form: 'Form',
+  batch: 'Batch',
+  api: 'API'
+};
+
+export default function GenerationHistory({ onDuplicate, onBack }: GenerationHistoryProps) {
+  const [records, setRecords] = useState<GenerationRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string>();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  const loadRecords = useCallback(async (before?: string) => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const page = await listGenerations(before);
+      setRecords(prev => before ? [...prev, ...page.records] : page.records);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading history:', err);
+      setError('Failed to load the generation history. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  const handleRegenerate = async (record: GenerationRecord) => {
+    try {
+      setRegeneratingId(record.id);
+      setError('');
+      const { editUrl } = await regenerateDocument(record);
+      window.open(editUrl, '_blank');
+      // The new document is recorded by the server and shows up first
+      await loadRecords();
+    } catch (err) {
+      console.error('Error regenerating document:', err);
+      setError(`Failed to regenerate "${record.title}". The template may have been deleted or unshared.`);
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
+  const formatValue = (value: VariableValue): string => {
+    if (Array.isArray(value)) {
+      return `${value.length} row${value.length !== 1 ? 's' : ''}`;
+    }
+    return value || '(empty)';
+  };
+
+  const formatLabel = (format: GenerationFormat): string =>
+    format === 'gdoc' ? 'Google Doc' : EXPORT_FORMATS[format].label;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-gray-900 mb-2">Generation History</h3>
+          <p className="text-gray-600">Every document you generated, newest first</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => loadRecords()}
+            disabled={isLoading}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!isLoading && records.length === 0 && !error && (
+        <div className="text-center py-12">
+          <h4 className="text-lg font-medium text-gray-900 mb-2">No Documents Yet</h4>
+          <p className="text-gray-600">Documents you save to Drive, download or batch generate are listed here.</p>
+        </div>
+      )}
+
+      {records.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {records.map(record => (
+            <li key={record.id} className="px-6 py-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{record.title}</p>
+                  <p className="text-sm text-gray-600">
+                    {record.templateName} · {formatLabel(record.format)} · {SOURCE_LABELS[record.source]}
+                    {record.regeneratedFrom && ' · Regenerated'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(record.createdAt).toLocaleString()}
+                    {record.templateRevision && ` · Template revision ${record.templateRevision.slice(0, 12)}`}
+                  </p>
+                </div>
+                <div className="flex flex-shrink-0 items-center space-x-2">
+                  <a
+                    href={`https://docs.google.com/document/d/${record.documentId}/edit`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    Open
+                  </a>
+                  <button
+                    onClick={() => handleRegenerate(record)}
+                    disabled={regeneratingId !== null}
+                    className="px-3 py-1.5 text-sm border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+                  >
+                    {regeneratingId === record.id ? 'Regenerating...' : 'Regenerate'}
+                  </button>
+                  <button
+                    onClick={() => onDuplicate(record)}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Duplicate with Edits
+                  </button>
+                </div>
+              </div>
+
+              <button
+                onClick={() => setExpandedId(expandedId === record.id ? null : record.id)}
+                className="mt-2 text-xs text-blue-600 hover:text-blue-700"
+              >
+                {expandedId === record.id ? 'Hide values' : 'Show values'}
+              </button>
+              {expandedId === record.id && (
+                <dl className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                  {Object.entries(record.values).map(([name, value]) => (
+                    <div key={name} className="flex space-x-2 min-w-0">
+                      <dt className="text-gray-500 flex-shrink-0">{name}:</dt>
+                      <dd className="text-gray-900 truncate">{formatValue(value)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {nextCursor && !isLoading && (
+        <div className="text-center mt-6">
+          <button
+            onClick={() => loadRecords(nextCursor)}
+            className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Load More
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useMemo, type MouseEvent } from 'react';
+import { renderLocalPreview } from '@/utils/localPreviewUtils';
+import type { VariableValues } from '@/utils/googleDocsUtils';
+import type { GoogleDocument } from '@/types/googleDocs';
+
+interface LivePreviewProps {
+  templateDocument: GoogleDocument;
+  values: VariableValues;
+  onPlaceholderClick?: (variableName: string) => void;
+}
+
+export default function LivePreview({ templateDocument, values, onPlaceholderClick }: LivePreviewProps) {
+  // Re-rendered in memory on every change, no Drive copy involved
+  const { html, unresolvedPlaceholders } = useMemo(
+    () => renderLocalPreview(templateDocument, values, { markPlaceholders: true }),
+    [templateDocument, values]
+  );
+
+  const handleClick = (e: MouseEvent<HTMLDivElement>) => {
+    const marked = (e.target as HTMLElement).closest<HTMLElement>('[data-variable]');
+    if (marked?.dataset.variable && onPlaceholderClick) {
+      onPlaceholderClick(marked.dataset.variable);
+    }
+  };
+
+  return (
+    <div className="border border-gray-300 rounded-lg bg-white shadow-sm">
+      <div className="border-b border-gray-200 px-6 py-3 bg-gray-50 flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">Live Preview</h4>
+        <span className={`text-xs ${unresolvedPlaceholders.length > 0 ? 'text-yellow-700' : 'text-green-700'}`}>
+          {unresolvedPlaceholders.length > 0
+            ? `${unresolvedPlaceholders.length} placeholder${unresolvedPlaceholders.length !== 1 ? 's' : ''} unfilled`
+            : 'All placeholders filled'}
+        </span>
+      </div>
+      <div className="p-8 max-h-[calc(100vh-10rem)] overflow-y-auto">
+        <div
+          onClick={handleClick}
+          className="prose prose-sm max-w-none leading-relaxed text-gray-900"
+          dangerouslySetInnerHTML={{ __html: html || '<p>No content available</p>' }}
+        />
+      </div>
+      <p className="border-t border-gray-200 px-6 py-2 text-xs text-gray-500">
+        Click a filled value or a <span className="bg-yellow-200 px-1">highlighted</span> placeholder to edit its field
+      </p>
+    </div>
+  );
+}
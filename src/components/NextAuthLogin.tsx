@@ -20,18 +20,21 @@ interface NextAuthLoginProps {
 export default function NextAuthLogin({ onAuthenticated, onSignOut }: NextAuthLoginProps) {
   const { data: session, status } = useSession();
 
+  // The server could not refresh the Google access token; the user has to sign in again
+  const needsReauth = session?.error === 'RefreshAccessTokenError';
+
   // Use useEffect to notify parent component when authenticated
   useEffect(() => {
-    if (session && status === 'authenticated') {
+    if (session && status === 'authenticated' && !needsReauth) {
       const user = {
         name: session.user?.name || '',
         email: session.user?.email || '',
         picture: session.user?.image || '',
-        accessToken: (session as { accessToken?: string }).accessToken || '',
+        accessToken: session.accessToken || '',
       };
       onAuthenticated(user);
     }
-  }, [session, status, onAuthenticated]);
+  }, [session, status, needsReauth, onAuthenticated]);
 
   const handleSignIn = () => {
     signIn('google', { prompt: 'consent' });
@@ -53,6 +56,38 @@ export default function NextAuthLogin({ onAuthenticated, onSignOut }: NextAuthLo
     );
   }
 
+  if (session && needsReauth) {
+    return (
+      <div className="max-w-md mx-auto bg-white rounded-xl shadow-lg p-8">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <svg className="w-8 h-8 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            Your Google session has expired
+          </h2>
+          <p className="text-gray-600 mb-6">
+            Please sign in again to keep working with your documents.
+          </p>
+          <button
+            onClick={handleSignIn}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors mb-3"
+          >
+            Sign in again
+          </button>
+          <button
+            onClick={handleSignOut}
+            className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (session) {
     return (
       <div className="max-w-md mx-auto bg-white rounded-xl shadow-lg p-8">
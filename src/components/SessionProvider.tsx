@@ -7,5 +7,7 @@ export default function Providers({
 }: {
   children: React.ReactNode;
 }) {
-  return <SessionProvider>{children}</SessionProvider>;
+  // Poll the session so refreshed access tokens (and refresh failures) reach the client;
+  // keep this shorter than REFRESH_MARGIN_MS in src/lib/auth.ts
+  return <SessionProvider refetchInterval={5 * 60}>{children}</SessionProvider>;
 }
\ No newline at end of file
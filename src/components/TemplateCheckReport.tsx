@@ -0,0 +1,86 @@
+'use client';
+
+import type { TemplateIssueKind, TemplateLintReport } from '@/utils/templateLintUtils';
+
+interface TemplateCheckReportProps {
+  templateId: string;
+  templateName: string;
+  report: TemplateLintReport;
+  onUse: () => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<TemplateIssueKind, string> = {
+  malformed: 'Malformed',
+  unbalanced: 'Unbalanced block',
+  split: 'Mixed formatting',
+  conflict: 'Conflict',
+  unused: 'Never filled'
+};
+
+export default function TemplateCheckReport({ templateId, templateName, report, onUse, onClose }: TemplateCheckReportProps) {
+  const errorCount = report.issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = report.issues.length - errorCount;
+
+  return (
+    <div className="mb-6 border border-gray-300 rounded-lg bg-white shadow-sm">
+      <div className="flex items-start justify-between px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-900">Template Check: {templateName}</h4>
+          <p className={`text-sm ${errorCount > 0 ? 'text-red-700' : warningCount > 0 ? 'text-yellow-700' : 'text-green-700'}`}>
+            {report.issues.length === 0
+              ? `No problems found in ${report.placeholderCount} placeholder${report.placeholderCount !== 1 ? 's' : ''}`
+              : `${errorCount} error${errorCount !== 1 ? 's' : ''}, ${warningCount} warning${warningCount !== 1 ? 's' : ''}`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          aria-label="Close template check"
+          className="text-gray-400 hover:text-gray-600 text-xl leading-none"
+        >
+          ×
+        </button>
+      </div>
+
+      {report.issues.length > 0 && (
+        <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+          {report.issues.map((issue, index) => (
+            <li key={index} className="px-6 py-3">
+              <div className="flex items-center space-x-2 mb-1">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                  issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                }`}>
+                  {issue.severity === 'error' ? 'Error' : 'Warning'}
+                </span>
+                <span className="text-xs text-gray-500">{KIND_LABELS[issue.kind]} · {issue.location}</span>
+              </div>
+              <p className="text-sm text-gray-900">{issue.message}</p>
+              {issue.excerpt && (
+                <p className="text-xs text-gray-500 mt-1 truncate">“{issue.excerpt}”</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-end space-x-3 px-6 py-3 border-t border-gray-200">
+        <a
+          href={`https://docs.google.com/document/d/${templateId}/edit`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+        >
+          Fix in Google Docs
+        </a>
+        <button
+          onClick={onUse}
+          className={`px-4 py-2 text-sm text-white rounded-md transition-colors ${
+            errorCount > 0 ? 'bg-gray-600 hover:bg-gray-700' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {errorCount > 0 ? 'Use Anyway' : 'Use Template'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,77 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-
-interface Template {
-  id: string;
-  name: string;
-  thumbnailLink?: string;
-  modifiedTime: string;
-  mimeType: string;
-}
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  countTemplateVariables,
+  createTemplateFolder,
+  findTemplateFolder,
+  getTemplateTags,
+  isBrowsing,
+  isFolder,
+  isTemplate,
+  listSharedDrives,
+  listTemplates,
+  setTemplateFavorite,
+  setTemplateMark,
+  setTemplateTags,
+  type SharedDrive,
+  type TemplateFile,
+  type TemplateLocation,
+  type TemplateQuery
+} from '@/utils/templateLibraryUtils';
+import { checkTemplate, type TemplateLintReport } from '@/utils/templateLintUtils';
+import TemplateCheckReport from './TemplateCheckReport';
 
 interface TemplatePickerProps {
   accessToken: string;
-  onTemplateSelected: (template: Template) => void;
+  onTemplateSelected: (template: TemplateFile) => void;
   onBack: () => void;
 }
 
 export default function TemplatePicker({ accessToken, onTemplateSelected, onBack }: TemplatePickerProps) {
-  const [templates, setTemplates] = useState<Template[]>([]);
+  const [templates, setTemplates] = useState<TemplateFile[]>([]);
+  const [nextPageToken, setNextPageToken] = useState<string>();
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string>('');
+  const [isCleaningUp, setIsCleaningUp] = useState(false);
+  const [cleanupMessage, setCleanupMessage] = useState<string>('');
+  const [scope, setScope] = useState<'templates' | 'all'>('templates');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  // undefined until the lookup finishes, null when the user has no templates folder
+  const [templateFolderId, setTemplateFolderId] = useState<string | null>();
+  const [variableCounts, setVariableCounts] = useState<Record<string, number | null>>({});
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [location, setLocation] = useState<TemplateLocation>({ kind: 'everywhere' });
+  // Folders opened below the location's top level, outermost first
+  const [folderPath, setFolderPath] = useState<Array<{ id: string; name: string }>>([]);
+  const [sharedDrives, setSharedDrives] = useState<SharedDrive[]>([]);
+  const [templateCheck, setTemplateCheck] = useState<{ template: TemplateFile; report: TemplateLintReport } | null>(null);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
 
+  const query = useMemo<TemplateQuery>(() => ({
+    scope,
+    location,
+    folderId: folderPath[folderPath.length - 1]?.id,
+    search: debouncedSearch,
+    tag: tagFilter ?? undefined,
+    favoritesOnly,
+    templateFolderId
+  }), [scope, location, folderPath, debouncedSearch, tagFilter, favoritesOnly, templateFolderId]);
+  const browsing = isBrowsing(query);
 
-  const loadGoogleDriveTemplates = useCallback(async () => {
-    setIsLoading(true);
+  const loadGoogleDriveTemplates = useCallback(async (pageToken?: string) => {
+    if (templateFolderId === undefined) return;
+    
+    if (pageToken) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+    }
     setError('');
 
     if (!accessToken) {
@@ -33,45 +81,189 @@ export default function TemplatePicker({ accessToken, onTemplateSelected, onBack
     }
 
     try {
-      // Search for Google Docs files in user's Drive
-      const response = await fetch(
-        `https://www.googleapis.com/drive/v3/files?` +
-        `q=mimeType='application/vnd.google-apps.document'&` +
-        `fields=files(id,name,thumbnailLink,modifiedTime,mimeType)&` +
-        `orderBy=modifiedTime desc&` +
-        `pageSize=20`,
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Response Error:', response.status, response.statusText, errorText);
-        
-        if (response.status === 403) {
-          throw new Error(`Google Drive API access denied. Please ensure the Google Drive API is enabled in Google Cloud Console. Error: ${response.statusText}`);
-        }
-        
-        throw new Error(`Failed to load templates: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      setTemplates(data.files || []);
+      const page = await listTemplates({ ...query, pageToken }, accessToken);
+      
+      setTemplates(prev => pageToken ? [...prev, ...page.templates] : page.templates);
+      setNextPageToken(page.nextPageToken);
     } catch (err) {
       console.error('Error loading templates:', err);
       setError('Failed to load templates from Google Drive. Please try again.');
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
     }
+  }, [accessToken, query, templateFolderId]);
+
+  useEffect(() => {
+    findTemplateFolder(accessToken)
+      .then(setTemplateFolderId)
+      .catch(() => setTemplateFolderId(null));
+    listSharedDrives(accessToken)
+      .then(setSharedDrives)
+      .catch(() => setSharedDrives([]));
   }, [accessToken]);
 
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
   useEffect(() => {
     loadGoogleDriveTemplates();
-  }, [accessToken, loadGoogleDriveTemplates]);
+  }, [loadGoogleDriveTemplates]);
+
+  // Count variables of the listed templates one at a time (cached per revision)
+  useEffect(() => {
+    let cancelled = false;
+    const countAll = async () => {
+      for (const template of templates) {
+        if (cancelled) return;
+        if (isFolder(template) || !isTemplate(template, templateFolderId)) continue;
+        try {
+          const count = await countTemplateVariables(template, accessToken);
+          if (!cancelled) setVariableCounts(prev => ({ ...prev, [template.id]: count }));
+        } catch {
+          if (!cancelled) setVariableCounts(prev => ({ ...prev, [template.id]: null }));
+        }
+      }
+    };
+    countAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [templates, templateFolderId, accessToken]);
+
+  // Tags offered as filters: every tag on the loaded templates
+  const knownTags = useMemo(() => {
+    const tags = new Set(templates.flatMap(getTemplateTags));
+    if (tagFilter) tags.add(tagFilter);
+    return [...tags].sort();
+  }, [templates, tagFilter]);
+
+  const locationKey = location.kind === 'sharedDrive' ? `drive:${location.driveId}` : location.kind;
+
+  const changeLocation = (key: string) => {
+    setLocation(key.startsWith('drive:')
+      ? { kind: 'sharedDrive', driveId: key.slice('drive:'.length) }
+      : { kind: key as 'everywhere' | 'myDrive' | 'sharedWithMe' }
+    );
+    setFolderPath([]);
+  };
+
+  const locationName = location.kind === 'sharedDrive'
+    ? sharedDrives.find(drive => drive.id === location.driveId)?.name ?? 'Shared Drive'
+    : { everywhere: 'Everywhere', myDrive: 'My Drive', sharedWithMe: 'Shared with me' }[location.kind];
+
+  const openFolder = (folder: TemplateFile) => {
+    setFolderPath(prev => [...prev, { id: folder.id, name: folder.name }]);
+  };
+
+  const replaceTemplate = (updated: TemplateFile) => {
+    setTemplates(prev => prev.map(template => template.id === updated.id ? updated : template));
+  };
+
+  const toggleFavorite = async (template: TemplateFile) => {
+    try {
+      replaceTemplate(await setTemplateFavorite(template, !template.starred, accessToken));
+    } catch (err) {
+      console.error('Error updating favorite:', err);
+      setCleanupMessage(`Failed to update favorites for "${template.name}".`);
+    }
+  };
+
+  const toggleTemplateMark = async (template: TemplateFile) => {
+    try {
+      const updated = await setTemplateMark(template, !isTemplate(template), accessToken);
+      if (scope === 'templates' && !isTemplate(updated, templateFolderId)) {
+        setTemplates(prev => prev.filter(t => t.id !== template.id));
+      } else {
+        replaceTemplate(updated);
+      }
+    } catch (err) {
+      console.error('Error updating template mark:', err);
+      setCleanupMessage(`Failed to update "${template.name}". You need edit access to mark a document as a template.`);
+    }
+  };
+
+  const startEditingTags = (template: TemplateFile) => {
+    setEditingTagsId(template.id);
+    setTagDraft(getTemplateTags(template).join(', '));
+  };
+
+  const saveTags = async (template: TemplateFile) => {
+    try {
+      replaceTemplate(await setTemplateTags(template, tagDraft.split(','), accessToken));
+      setEditingTagsId(null);
+    } catch (err) {
+      console.error('Error saving tags:', err);
+      setCleanupMessage(`Failed to save tags for "${template.name}". You need edit access to tag a template.`);
+    }
+  };
+
+  const openTemplateFolder = async () => {
+    try {
+      const folderId = templateFolderId || await createTemplateFolder(accessToken);
+      setTemplateFolderId(folderId);
+      window.open(`https://drive.google.com/drive/folders/${folderId}`, '_blank');
+    } catch (err) {
+      console.error('Error opening templates folder:', err);
+      setCleanupMessage('Failed to create the templates folder. Please try again.');
+    }
+  };
+
+  const cleanUpPreviews = async () => {
+    setIsCleaningUp(true);
+    setCleanupMessage('');
+    try {
+      const response = await fetch('/api/previews/cleanup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Cleanup failed: ${response.statusText}`);
+      }
+
+      const { trashed } = await response.json();
+      setCleanupMessage(
+        trashed > 0
+          ? `Moved ${trashed} leftover preview document${trashed !== 1 ? 's' : ''} to the trash.`
+          : 'No leftover preview documents found.'
+      );
+    } catch (err) {
+      console.error('Error cleaning up previews:', err);
+      setCleanupMessage('Failed to clean up preview documents. Please try again.');
+    } finally {
+      setIsCleaningUp(false);
+    }
+  };
+
+  // Check a template; when selecting, a template without errors is used right away
+  const runTemplateCheck = async (template: TemplateFile, selecting: boolean) => {
+    setCheckingId(template.id);
+    try {
+      const report = await checkTemplate(template.id, accessToken);
+      if (selecting && !report.issues.some(issue => issue.severity === 'error')) {
+        onTemplateSelected(template);
+      } else {
+        setTemplateCheck({ template, report });
+      }
+    } catch (err) {
+      console.error('Error checking template:', err);
+      if (selecting) {
+        // The check is advisory; the template is read again (and errors shown) once selected
+        onTemplateSelected(template);
+      } else {
+        setCleanupMessage(`Failed to check "${template.name}". Please try again.`);
+      }
+    } finally {
+      setCheckingId(null);
+    }
+  };
 
   const createNewTemplate = () => {
     // Open Google Docs in a new tab to create a template
@@ -88,17 +280,6 @@ export default function TemplatePicker({ accessToken, onTemplateSelected, onBack
     });
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center py-12">
-        <div className="flex items-center space-x-3">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-          <span className="text-gray-700 font-medium">Loading your Google Docs templates...</span>
-        </div>
-      </div>
-    );
-  }
-
   if (error) {
     return (
       <div className="text-center py-12">
@@ -112,7 +293,7 @@ export default function TemplatePicker({ accessToken, onTemplateSelected, onBack
           <p className="text-red-700 text-sm mb-4">{error}</p>
           <div className="flex space-x-3 justify-center">
             <button
-              onClick={loadGoogleDriveTemplates}
+              onClick={() => loadGoogleDriveTemplates()}
               className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors text-sm"
             >
               Try Again
@@ -134,7 +315,7 @@ export default function TemplatePicker({ accessToken, onTemplateSelected, onBack
       <div className="flex items-center justify-between mb-8">
         <div>
           <h3 className="text-2xl font-bold text-gray-900 mb-2">
-            Select a Google Docs Template
+            Template Library
           </h3>
           <p className="text-gray-600">
             Choose a document that contains variables like <code>{'{{client_name}}'}</code> or <code>{'{{project_title}}'}</code>
@@ -148,7 +329,14 @@ export default function TemplatePicker({ accessToken, onTemplateSelected, onBack
             Create New Template
           </button>
           <button
-            onClick={loadGoogleDriveTemplates}
+            onClick={cleanUpPreviews}
+            disabled={isCleaningUp}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            {isCleaningUp ? 'Cleaning Up...' : 'Clean Up Previews'}
+          </button>
+          <button
+            onClick={() => loadGoogleDriveTemplates()}
             className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
           >
             Refresh
@@ -156,58 +344,334 @@ export default function TemplatePicker({ accessToken, onTemplateSelected, onBack
         </div>
       </div>
 
-      {templates.length === 0 ? (
+      {templateCheck && (
+        <TemplateCheckReport
+          templateId={templateCheck.template.id}
+          templateName={templateCheck.template.name}
+          report={templateCheck.report}
+          onUse={() => onTemplateSelected(templateCheck.template)}
+          onClose={() => setTemplateCheck(null)}
+        />
+      )}
+
+      {cleanupMessage && (
+        <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-md">
+          <p className="text-gray-700 text-sm">{cleanupMessage}</p>
+        </div>
+      )}
+
+      {/* Library filters */}
+      <div className="mb-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={locationKey}
+            onChange={(e) => changeLocation(e.target.value)}
+            aria-label="Location"
+            className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700"
+          >
+            <option value="everywhere">Everywhere</option>
+            <option value="myDrive">My Drive</option>
+            <option value="sharedWithMe">Shared with me</option>
+            {sharedDrives.length > 0 && (
+              <optgroup label="Shared Drives">
+                {sharedDrives.map((drive) => (
+                  <option key={drive.id} value={`drive:${drive.id}`}>{drive.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {([['templates', 'Templates'], ['all', 'All Documents']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setScope(key)}
+                className={`px-4 py-2 text-sm font-medium ${
+                  scope === key ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or content"
+            aria-label="Search templates"
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+          />
+          <button
+            onClick={() => setFavoritesOnly(!favoritesOnly)}
+            aria-pressed={favoritesOnly}
+            className={`px-4 py-2 text-sm rounded-md border ${
+              favoritesOnly ? 'border-yellow-400 bg-yellow-50 text-yellow-800' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            ★ Favorites
+          </button>
+          <button
+            onClick={openTemplateFolder}
+            disabled={templateFolderId === undefined}
+            className="px-4 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {templateFolderId ? 'Open Templates Folder' : 'Create Templates Folder'}
+          </button>
+        </div>
+        {location.kind !== 'everywhere' && (
+          <nav aria-label="Folder path" className="flex flex-wrap items-center gap-1 text-sm">
+            {browsing ? (
+              <>
+                <button
+                  onClick={() => setFolderPath([])}
+                  className={folderPath.length > 0 ? 'text-blue-600 hover:underline' : 'font-medium text-gray-900'}
+                >
+                  {locationName}
+                </button>
+                {folderPath.map((folder, index) => (
+                  <span key={folder.id} className="flex items-center gap-1">
+                    <span className="text-gray-400">/</span>
+                    <button
+                      onClick={() => setFolderPath(folderPath.slice(0, index + 1))}
+                      className={index < folderPath.length - 1 ? 'text-blue-600 hover:underline' : 'font-medium text-gray-900'}
+                    >
+                      {folder.name}
+                    </button>
+                  </span>
+                ))}
+              </>
+            ) : (
+              <span className="text-gray-600">Searching all of {locationName}</span>
+            )}
+          </nav>
+        )}
+        {knownTags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-500">Tags:</span>
+            {knownTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                aria-pressed={tagFilter === tag}
+                className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                  tagFilter === tag ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="flex items-center space-x-3">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="text-gray-700 font-medium">Loading your Google Docs templates...</span>
+          </div>
+        </div>
+      ) : templates.length === 0 ? (
         <div className="text-center py-12">
           <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
             <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
             </svg>
           </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No Google Docs Found</h3>
-          <p className="text-gray-600 mb-6 max-w-md mx-auto">
-            You don&apos;t have any Google Docs in your Drive yet. Create a new document with placeholder variables to get started.
-          </p>
-          <button
-            onClick={createNewTemplate}
-            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-          >
-            Create Your First Template
-          </button>
+          {debouncedSearch || tagFilter || favoritesOnly ? (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Matches</h3>
+              <p className="text-gray-600 mb-6 max-w-md mx-auto">
+                No documents match your search and filters.
+              </p>
+            </>
+          ) : location.kind !== 'everywhere' ? (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing Here</h3>
+              <p className="text-gray-600 mb-6 max-w-md mx-auto">
+                {folderPath.length > 0 ? 'This folder' : locationName} has no folders or {scope === 'templates' ? 'templates' : 'Google Docs'}.
+              </p>
+            </>
+          ) : scope === 'templates' ? (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Templates Yet</h3>
+              <p className="text-gray-600 mb-6 max-w-md mx-auto">
+                Mark documents as templates under &ldquo;All Documents&rdquo;, or put them into your templates folder.
+              </p>
+              <button
+                onClick={() => setScope('all')}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Browse All Documents
+              </button>
+            </>
+          ) : (
+            <>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Google Docs Found</h3>
+              <p className="text-gray-600 mb-6 max-w-md mx-auto">
+                You don&apos;t have any Google Docs in your Drive yet. Create a new document with placeholder variables to get started.
+              </p>
+              <button
+                onClick={createNewTemplate}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Create Your First Template
+              </button>
+            </>
+          )}
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {templates.map((template) => (
-            <div
-              key={template.id}
-              className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow cursor-pointer"
-              onClick={() => onTemplateSelected(template)}
-            >
-              <div className="flex items-start space-x-4">
-                <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
-                  <svg className="w-6 h-6 text-blue-600" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z"/>
-                  </svg>
-                </div>
-                <div className="flex-1 min-w-0">
-                  <h4 className="text-lg font-medium text-gray-900 truncate mb-2">
-                    {template.name}
-                  </h4>
-                  <p className="text-sm text-gray-500 mb-2">
-                    Modified {formatDate(template.modifiedTime)}
-                  </p>
-                  <div className="flex items-center justify-between">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                      Google Docs
-                    </span>
-                    <button className="text-blue-600 hover:text-blue-700 text-sm font-medium">
-                      Select →
-                    </button>
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {templates.map((template) => {
+              if (isFolder(template)) {
+                return (
+                  <div
+                    key={template.id}
+                    className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow cursor-pointer"
+                    onClick={() => openFolder(template)}
+                  >
+                    <div className="flex items-center space-x-4">
+                      <div className="w-12 h-12 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                        <svg className="w-6 h-6 text-gray-500" fill="currentColor" viewBox="0 0 24 24">
+                          <path d="M10,4H4C2.89,4 2,4.89 2,6V18A2,2 0 0,0 4,20H20A2,2 0 0,0 22,18V8C22,6.89 21.1,6 20,6H12L10,4Z"/>
+                        </svg>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="text-lg font-medium text-gray-900 truncate">{template.name}</h4>
+                        <p className="text-sm text-gray-500">Folder</p>
+                      </div>
+                      <span className="text-blue-600 text-sm font-medium">Open →</span>
+                    </div>
+                  </div>
+                );
+              }
+              const tags = getTemplateTags(template);
+              const count = variableCounts[template.id];
+              return (
+                <div
+                  key={template.id}
+                  className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow cursor-pointer"
+                  onClick={() => {
+                    if (!checkingId) runTemplateCheck(template, true);
+                  }}
+                >
+                  <div className="flex items-start space-x-4">
+                    <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <svg className="w-6 h-6 text-blue-600" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z"/>
+                      </svg>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between mb-2">
+                        <h4 className="text-lg font-medium text-gray-900 truncate">
+                          {template.name}
+                        </h4>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleFavorite(template);
+                          }}
+                          aria-label={template.starred ? 'Remove from favorites' : 'Add to favorites'}
+                          className={`ml-2 text-xl leading-none ${template.starred ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500'}`}
+                        >
+                          ★
+                        </button>
+                      </div>
+                      <p className="text-sm text-gray-500 mb-2">
+                        Modified {formatDate(template.modifiedTime)}
+                      </p>
+                      {isTemplate(template, templateFolderId) && (
+                        <p className="text-sm text-gray-600 mb-2">
+                          {count === undefined
+                            ? 'Counting variables…'
+                            : count === null
+                              ? 'Variables unavailable'
+                              : `${count} variable${count !== 1 ? 's' : ''}`}
+                        </p>
+                      )}
+                      {editingTagsId === template.id ? (
+                        <form
+                          onClick={(e) => e.stopPropagation()}
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            saveTags(template);
+                          }}
+                          className="flex space-x-2 mb-2"
+                        >
+                          <input
+                            type="text"
+                            value={tagDraft}
+                            onChange={(e) => setTagDraft(e.target.value)}
+                            placeholder="invoices, clients"
+                            aria-label="Tags (comma separated)"
+                            autoFocus
+                            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded text-black"
+                          />
+                          <button type="submit" className="px-2 py-1 text-sm bg-blue-600 text-white rounded">Save</button>
+                          <button type="button" onClick={() => setEditingTagsId(null)} className="px-2 py-1 text-sm text-gray-600">Cancel</button>
+                        </form>
+                      ) : tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {tags.map((tag) => (
+                            <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3 text-xs">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleTemplateMark(template);
+                            }}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            {isTemplate(template) ? 'Remove from templates' : 'Mark as template'}
+                          </button>
+                          {isTemplate(template, templateFolderId) && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                startEditingTags(template);
+                              }}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Edit tags
+                            </button>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (!checkingId) runTemplateCheck(template, false);
+                            }}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            Check template
+                          </button>
+                        </div>
+                        <button className="text-blue-600 hover:text-blue-700 text-sm font-medium">
+                          {checkingId === template.id ? 'Checking…' : 'Select →'}
+                        </button>
+                      </div>
+                    </div>
                   </div>
                 </div>
-              </div>
+              );
+            })}
+          </div>
+          {nextPageToken && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={() => loadGoogleDriveTemplates(nextPageToken)}
+                disabled={isLoadingMore}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                {isLoadingMore ? 'Loading...' : 'Load More'}
+              </button>
             </div>
-          ))}
-        </div>
+          )}
+        </>
       )}
 
       <div className="mt-8 text-center">
@@ -228,7 +692,7 @@ export default function TemplatePicker({ accessToken, onTemplateSelected, onBack
           <p>1. Create a new Google Doc or select an existing one</p>
           <p>2. Add placeholder variables using double curly braces: <code className="bg-blue-100 px-1 rounded">{'{{variable_name}}'}</code></p>
           <p>3. Example: &ldquo;Dear {'{{client_name}}'}, your project {'{{project_title}}'} is ready.&rdquo;</p>
-          <p>4. Save the document and refresh this page to see it in the list</p>
+          <p>4. Mark it as a template under &ldquo;All Documents&rdquo; (or move it into your templates folder) and add tags to find it quickly</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import type { TemplateVariable } from '@/utils/googleDocsUtils';
+import {
+  createSchemaSkeleton,
+  parseTemplateSchema,
+  saveTemplateSchema,
+  type TemplateSchema
+} from '@/utils/templateSchemaUtils';
+
+interface TemplateSchemaEditorProps {
+  templateId: string;
+  templateName: string;
+  variables: TemplateVariable[]; // As found in the template, before the schema is applied
+  schema: TemplateSchema | null;
+  accessToken: string;
+  onSaved: (schema: TemplateSchema) => void;
+  onClose: () => void;
+}
+
+export default function TemplateSchemaEditor({
+  templateId,
+  templateName,
+  variables,
+  schema,
+  accessToken,
+  onSaved,
+  onClose
+}: TemplateSchemaEditorProps) {
+  const [text, setText] = useState(() => JSON.stringify(schema ?? createSchemaSkeleton(variables), null, 2));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const handleSave = async () => {
+    let parsed: TemplateSchema;
+    try {
+      parsed = parseTemplateSchema(JSON.parse(text));
+    } catch (err) {
+      setError(err instanceof SyntaxError ? `Invalid JSON: ${err.message}` : (err as Error).message);
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await saveTemplateSchema(templateId, templateName, parsed, accessToken);
+      onSaved(parsed);
+    } catch (err) {
+      console.error('Error saving template schema:', err);
+      setError('Failed to save the form schema. You need edit access to the template and its folder.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 border border-gray-300 rounded-lg bg-white shadow-sm">
+      <div className="flex items-start justify-between px-6 py-4 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-900">Customize Form</h4>
+          <p className="text-sm text-gray-600">
+            Labels, help text, sections, order and validation for everyone using this template. Saving resets the form.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          aria-label="Close form customization"
+          className="text-gray-400 hover:text-gray-600 text-xl leading-none"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="px-6 py-4 space-y-3">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={16}
+          spellCheck={false}
+          aria-label="Form schema (JSON)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={isSaving}
+        />
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+        <div className="text-xs text-gray-500 space-y-1">
+          <p>
+            <code className="bg-gray-100 px-1 rounded">{'"sections": [{ "id": "client", "title": "Client", "description": "…" }]'}</code> groups fields under headings, in this order.
+          </p>
+          <p>
+            Each entry of <code className="bg-gray-100 px-1 rounded">fields</code> may set <code className="bg-gray-100 px-1 rounded">label</code>, <code className="bg-gray-100 px-1 rounded">help</code>, <code className="bg-gray-100 px-1 rounded">section</code>, <code className="bg-gray-100 px-1 rounded">order</code>, <code className="bg-gray-100 px-1 rounded">pattern</code> (a regular expression the whole value must match), <code className="bg-gray-100 px-1 rounded">patternMessage</code> and <code className="bg-gray-100 px-1 rounded">required</code>. Fields of a repeating section are named like <code className="bg-gray-100 px-1 rounded">items.description</code>.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end space-x-3 px-6 py-3 border-t border-gray-200">
+        <button
+          onClick={() => setText(JSON.stringify(createSchemaSkeleton(variables), null, 2))}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          Start Over
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Form Schema'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { TemplateVariable } from '@/utils/googleDocsUtils';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { TemplateVariable, IF_OPEN_REGEX, computeValues, isTruthyValue, type ListItemValues, type VariableValue, type VariableValues } from '@/utils/googleDocsUtils';
+import { isImageSource, uploadImageToDrive } from '@/utils/imageUtils';
+import { getDefaultLabel, type SchemaSection } from '@/utils/templateSchemaUtils';
+import { createEmptyItem, getInitialValue } from '@/utils/draftUtils';
 
 interface VariableFormProps {
   variables: TemplateVariable[];
-  onValuesChange: (values: Record<string, string>) => void;
+  onValuesChange: (values: VariableValues) => void;
   onSubmit: () => void;
   onBack: () => void;
   isLoading?: boolean;
+  accessToken?: string; // Needed to upload images to Drive
+  focusRequest?: { name: string }; // A new object focuses the named variable's field
+  sections?: SchemaSection[]; // From the template's form schema; fields outside a section come first
+  initialValues?: VariableValues; // A restored draft or applied preset; a new object refills the form
 }
 
 export default function VariableForm({ 
@@ -16,22 +23,68 @@ export default function VariableForm({
   onValuesChange, 
   onSubmit, 
   onBack, 
-  isLoading = false 
+  isLoading = false,
+  accessToken,
+  focusRequest,
+  sections,
+  initialValues
 }: VariableFormProps) {
-  const [values, setValues] = useState<Record<string, string>>({});
+  const [values, setValues] = useState<VariableValues>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [uploadingKey, setUploadingKey] = useState<string | null>(null);
+  const [highlightedName, setHighlightedName] = useState<string | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
 
-  // Initialize empty values for all variables
+  // Initialize values for all variables from initialValues, or empty (lists start with one empty item)
   useEffect(() => {
-    const initialValues: Record<string, string> = {};
+    const newValues: VariableValues = {};
     variables.forEach(variable => {
-      initialValues[variable.name] = '';
+      if (!variable.expression) {
+        const initialValue = initialValues?.[variable.name];
+        const isList = variable.type === 'list' || variable.type === 'table';
+        newValues[variable.name] = initialValue !== undefined && Array.isArray(initialValue) === isList
+          ? initialValue
+          : getInitialValue(variable);
+      }
     });
-    setValues(initialValues);
-    onValuesChange(initialValues);
-  }, [variables, onValuesChange]);
+    setValues(newValues);
+    setErrors({});
+    onValuesChange(newValues);
+  }, [variables, initialValues, onValuesChange]);
 
-  const handleValueChange = (variableName: string, value: string) => {
+  // Bring the requested field into view, focus its first input and flash it
+  useEffect(() => {
+    if (!focusRequest) return;
+    const field = Array.from(formRef.current?.querySelectorAll<HTMLElement>('[data-variable]') || [])
+      .find(element => element.dataset.variable === focusRequest.name);
+    if (!field) return;
+
+    field.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    field.querySelector<HTMLElement>('input:not([type="file"]), select, textarea')?.focus({ preventScroll: true });
+    setHighlightedName(focusRequest.name);
+    const timeout = setTimeout(() => setHighlightedName(null), 1500);
+    return () => clearTimeout(timeout);
+  }, [focusRequest]);
+
+  // Results of {{name = expression}} variables, recalculated as the user types
+  const computedValues = useMemo(
+    () => computeValues(variables.filter(variable => variable.expression), values),
+    [variables, values]
+  );
+
+  // Fields grouped by schema section, in the order the sections are listed
+  const groups = useMemo(() => {
+    const known = new Set((sections || []).map(section => section.id));
+    const result: Array<{ section?: SchemaSection; variables: TemplateVariable[] }> = [
+      { variables: variables.filter(variable => !variable.section || !known.has(variable.section)) }
+    ];
+    for (const section of sections || []) {
+      result.push({ section, variables: variables.filter(variable => variable.section === section.id) });
+    }
+    return result.filter(group => group.variables.length > 0);
+  }, [variables, sections]);
+
+  const handleValueChange = (variableName: string, value: VariableValue) => {
     const newValues = { ...values, [variableName]: value };
     setValues(newValues);
     onValuesChange(newValues);
@@ -46,36 +99,100 @@ export default function VariableForm({
     }
   };
 
+  const handleItemChange = (list: TemplateVariable, itemIndex: number, fieldName: string, value: string) => {
+    const items = getItems(list.name).map((item, index) =>
+      index === itemIndex ? { ...item, [fieldName]: value } : item
+    );
+    handleValueChange(list.name, items);
+    
+    const errorKey = getItemErrorKey(list.name, itemIndex, fieldName);
+    if (errors[errorKey]) {
+      setErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[errorKey];
+        return newErrors;
+      });
+    }
+  };
+
+  const handleAddItem = (list: TemplateVariable) => {
+    handleValueChange(list.name, [...getItems(list.name), createEmptyItem(list)]);
+  };
+
+  const handleRemoveItem = (list: TemplateVariable, itemIndex: number) => {
+    handleValueChange(list.name, getItems(list.name).filter((_, index) => index !== itemIndex));
+    // Item indices shift, so stale errors for this list no longer line up
+    setErrors(prev => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => !key.startsWith(`${list.name}.`))
+    ));
+  };
+
+  // Pasting cells copied from a spreadsheet (tab-separated lines) fills the grid from the focused cell
+  const handleTablePaste = (table: TemplateVariable, itemIndex: number, columnIndex: number, e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!/[\t\n]/.test(text)) return;
+    e.preventDefault();
+    
+    const columns = table.columns || [];
+    const pastedRows = text.replace(/\r/g, '').replace(/\n$/, '').split('\n').map(line => line.split('\t'));
+    const items = [...getItems(table.name)];
+    pastedRows.forEach((cells, rowOffset) => {
+      const index = itemIndex + rowOffset;
+      const item = { ...(items[index] || createEmptyItem(table)) };
+      cells.forEach((cell, cellOffset) => {
+        const column = columns[columnIndex + cellOffset];
+        if (column) item[column] = cell;
+      });
+      items[index] = item;
+    });
+    handleValueChange(table.name, items);
+  };
+
+  const handleImageUpload = async (errorKey: string, file: File | undefined, onChange: (value: string) => void) => {
+    if (!file || !accessToken) return;
+    
+    setUploadingKey(errorKey);
+    try {
+      onChange(await uploadImageToDrive(file, accessToken));
+    } catch (err) {
+      console.error('Error uploading image:', err);
+      setErrors(prev => ({ ...prev, [errorKey]: 'Failed to upload image. Please try again or use a link.' }));
+    } finally {
+      setUploadingKey(null);
+    }
+  };
+
+  const getItems = (listName: string): ListItemValues[] => {
+    const value = values[listName];
+    return Array.isArray(value) ? value : [];
+  };
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
     
     variables.forEach(variable => {
-      const value = values[variable.name]?.trim();
-      
-      if (!value) {
-        newErrors[variable.name] = 'This field is required';
+      if (variable.type === 'table') {
+        if (!variable.optional && getItems(variable.name).length === 0) {
+          newErrors[variable.name] = 'Add at least one row';
+        }
+        return;
+      }
+      if (variable.type === 'list') {
+        getItems(variable.name).forEach((item, itemIndex) => {
+          (variable.fields || []).forEach(field => {
+            const error = validateValue(field, item[field.name]);
+            if (error) {
+              newErrors[getItemErrorKey(variable.name, itemIndex, field.name)] = error;
+            }
+          });
+        });
         return;
       }
       
-      // Type-specific validation
-      switch (variable.type) {
-        case 'email':
-          const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-          if (!emailRegex.test(value)) {
-            newErrors[variable.name] = 'Please enter a valid email address';
-          }
-          break;
-        case 'number':
-          if (isNaN(Number(value))) {
-            newErrors[variable.name] = 'Please enter a valid number';
-          }
-          break;
-        case 'date':
-          const date = new Date(value);
-          if (isNaN(date.getTime())) {
-            newErrors[variable.name] = 'Please enter a valid date';
-          }
-          break;
+      const value = values[variable.name];
+      const error = validateValue(variable, typeof value === 'string' ? value : '');
+      if (error) {
+        newErrors[variable.name] = error;
       }
     });
     
@@ -94,7 +211,10 @@ export default function VariableForm({
     switch (variableType) {
       case 'email': return 'email';
       case 'number': return 'number';
+      case 'currency': return 'number';
       case 'date': return 'date';
+      case 'phone': return 'tel';
+      case 'url': return 'url';
       default: return 'text';
     }
   };
@@ -103,11 +223,299 @@ export default function VariableForm({
     switch (variable.type) {
       case 'email': return 'Enter email address';
       case 'number': return 'Enter number';
+      case 'currency': return '0.00';
       case 'date': return 'Select date';
+      case 'phone': return 'Enter phone number';
+      case 'url': return 'https://';
+      case 'image': return 'Image URL or Google Drive link';
       default: return `Enter ${variable.name.replace(/_/g, ' ')}`;
     }
   };
 
+  const fieldHighlight = (name: string) =>
+    highlightedName === name ? 'rounded-md ring-2 ring-blue-400 ring-offset-4 transition-shadow' : '';
+
+  const inputClassName = (errorKey: string) =>
+    `w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black ${
+      errors[errorKey] 
+        ? 'border-red-500 bg-red-50' 
+        : 'border-gray-300'
+    }`;
+
+  /** Renders the input for a single (non-list) variable or list field */
+  const renderInput = (
+    variable: TemplateVariable,
+    value: string,
+    onChange: (value: string) => void,
+    errorKey: string,
+    inputProps: { id?: string; name?: string; 'aria-label'?: string }
+  ) => {
+    if (variable.expression) {
+      return (
+        <output
+          {...inputProps}
+          className="block w-full px-3 py-2 border border-gray-200 rounded-md bg-gray-50 text-gray-700"
+        >
+          {value || '—'}
+        </output>
+      );
+    }
+    
+    switch (variable.type) {
+      case 'boolean':
+        return (
+          <label className="flex items-center space-x-2 py-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              {...inputProps}
+              checked={isTruthyValue(value)}
+              onChange={(e) => onChange(e.target.checked ? 'true' : 'false')}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              disabled={isLoading}
+            />
+            <span>{isCondition(variable) ? 'Include this section' : 'Yes'}</span>
+          </label>
+        );
+      case 'select':
+        return (
+          <select
+            {...inputProps}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClassName(errorKey)}
+            disabled={isLoading}
+          >
+            <option value="">Select…</option>
+            {(variable.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'image':
+        return (
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              {...inputProps}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder={getInputPlaceholder(variable)}
+              className={inputClassName(errorKey)}
+              disabled={isLoading}
+            />
+            {accessToken && (
+              <label className={`flex-shrink-0 px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors ${
+                isLoading || uploadingKey ? 'opacity-50' : 'cursor-pointer'
+              }`}>
+                {uploadingKey === errorKey ? 'Uploading...' : 'Upload'}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/gif"
+                  className="hidden"
+                  onChange={(e) => handleImageUpload(errorKey, e.target.files?.[0], onChange)}
+                  disabled={isLoading || uploadingKey !== null}
+                />
+              </label>
+            )}
+          </div>
+        );
+      case 'textarea':
+        return (
+          <textarea
+            {...inputProps}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={getInputPlaceholder(variable)}
+            rows={4}
+            className={inputClassName(errorKey)}
+            disabled={isLoading}
+          />
+        );
+      default:
+        return (
+          <input
+            type={getInputType(variable.type || 'text')}
+            {...inputProps}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={getInputPlaceholder(variable)}
+            step={variable.type === 'currency' ? '0.01' : undefined}
+            className={inputClassName(errorKey)}
+            disabled={isLoading}
+          />
+        );
+    }
+  };
+
+  /** Renders the field (or grid, or repeating rows) of one variable */
+  const renderVariable = (variable: TemplateVariable) => variable.type === 'table' ? (
+    <div key={variable.name} data-variable={variable.name} className={`md:col-span-2 space-y-3 ${fieldHighlight(variable.name)}`}>
+      <div className="flex items-center justify-between">
+        <span className="block text-sm font-medium text-gray-700">
+          {formatLabel(variable)}
+          <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+            table
+          </span>
+        </span>
+        <button
+          type="button"
+          onClick={() => handleAddItem(variable)}
+          disabled={isLoading}
+          className="px-3 py-1 text-sm border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+        >
+          + Add Row
+        </button>
+      </div>
+      {variable.help && (
+        <p className="text-sm text-gray-600">{variable.help}</p>
+      )}
+      <div className="overflow-x-auto border border-gray-200 rounded-md">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-700">
+            <tr>
+              <th className="w-8"></th>
+              {(variable.columns || []).map((column) => (
+                <th key={column} className="px-2 py-2 text-left font-medium">{column}</th>
+              ))}
+              <th className="w-16"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {getItems(variable.name).map((item, itemIndex) => (
+              <tr key={itemIndex} className="border-t border-gray-100">
+                <td className="px-2 text-gray-500">{itemIndex + 1}</td>
+                {(variable.columns || []).map((column, columnIndex) => (
+                  <td key={column} className="p-1">
+                    <input
+                      type="text"
+                      aria-label={`${column} (row ${itemIndex + 1})`}
+                      value={item[column] || ''}
+                      onChange={(e) => handleItemChange(variable, itemIndex, column, e.target.value)}
+                      onPaste={(e) => handleTablePaste(variable, itemIndex, columnIndex, e)}
+                      className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                      disabled={isLoading}
+                    />
+                  </td>
+                ))}
+                <td className="px-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveItem(variable, itemIndex)}
+                    disabled={isLoading}
+                    className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {errors[variable.name] && (
+        <p className="text-sm text-red-600">{errors[variable.name]}</p>
+      )}
+      <p className="text-xs text-gray-500">
+        Fills the table holding <code className="bg-gray-100 px-1 rounded">{variable.placeholder}</code> one row per line. Paste cells from a spreadsheet to fill several at once.
+      </p>
+    </div>
+  ) : variable.type === 'list' ? (
+    <div key={variable.name} data-variable={variable.name} className={`md:col-span-2 space-y-3 ${fieldHighlight(variable.name)}`}>
+      <div className="flex items-center justify-between">
+        <span className="block text-sm font-medium text-gray-700">
+          {formatLabel(variable)}
+          <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+            list
+          </span>
+        </span>
+        <button
+          type="button"
+          onClick={() => handleAddItem(variable)}
+          disabled={isLoading}
+          className="px-3 py-1 text-sm border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition-colors disabled:opacity-50"
+        >
+          + Add Row
+        </button>
+      </div>
+      {variable.help && (
+        <p className="text-sm text-gray-600">{variable.help}</p>
+      )}
+      {getItems(variable.name).length === 0 ? (
+        <p className="text-sm text-gray-500">No rows. The repeating section will be removed from the document.</p>
+      ) : (
+        getItems(variable.name).map((item, itemIndex) => (
+          <div key={itemIndex} className="flex items-start space-x-3 border border-gray-200 rounded-md p-3">
+            <span className="text-sm text-gray-500 pt-2 w-6">{itemIndex + 1}.</span>
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-3">
+              {(variable.fields || []).map((field) => {
+                const errorKey = getItemErrorKey(variable.name, itemIndex, field.name);
+                return (
+                  <div key={field.name} className="space-y-1" title={field.help}>
+                    {renderInput(
+                      field,
+                      (field.expression ? computeValues([field], item)[field.name] as string : item[field.name]) || '',
+                      (value) => handleItemChange(variable, itemIndex, field.name, value),
+                      errorKey,
+                      { 'aria-label': `${formatLabel(field)} (row ${itemIndex + 1})` }
+                    )}
+                    {errors[errorKey] && (
+                      <p className="text-sm text-red-600">{errors[errorKey]}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRemoveItem(variable, itemIndex)}
+              disabled={isLoading}
+              className="px-2 py-2 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        ))
+      )}
+      <p className="text-xs text-gray-500">
+        Repeats: <code className="bg-gray-100 px-1 rounded">{variable.placeholder}</code> … <code className="bg-gray-100 px-1 rounded">{'{{/each}}'}</code> once per row
+      </p>
+    </div>
+  ) : (
+    <div key={variable.name} data-variable={variable.name} className={`space-y-2 ${fieldHighlight(variable.name)}`}>
+      <label htmlFor={variable.name} className="block text-sm font-medium text-gray-700">
+        {formatLabel(variable)}
+        {variable.type && variable.type !== 'text' && (
+          <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+            {variable.type}
+          </span>
+        )}
+        {variable.optional && variable.type !== 'boolean' && (
+          <span className="ml-2 text-xs font-normal text-gray-500">(optional)</span>
+        )}
+        {variable.expression && (
+          <span className="ml-2 text-xs font-normal text-gray-500">(calculated)</span>
+        )}
+      </label>
+      {renderInput(
+        variable,
+        ((variable.expression ? computedValues : values)[variable.name] as string) || '',
+        (value) => handleValueChange(variable.name, value),
+        variable.name,
+        { id: variable.name, name: variable.name }
+      )}
+      {variable.help && (
+        <p className="text-sm text-gray-600">{variable.help}</p>
+      )}
+      {errors[variable.name] && (
+        <p className="text-sm text-red-600">{errors[variable.name]}</p>
+      )}
+      <p className="text-xs text-gray-500">
+        {isCondition(variable) ? 'Controls' : 'Replaces'}: <code className="bg-gray-100 px-1 rounded">{variable.placeholder}</code>
+        {variable.expression && ' (updates as you fill in the form)'}
+      </p>
+    </div>
+  );
+
   if (variables.length === 0) {
     return (
       <div className="text-center py-12">
@@ -139,7 +547,7 @@ export default function VariableForm({
   }
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-6">
+    <form ref={formRef} onSubmit={handleSubmit} className="space-y-6">
       <div className="mb-8">
         <h3 className="text-2xl font-bold text-gray-900 mb-2">
           Fill Template Variables
@@ -149,38 +557,21 @@ export default function VariableForm({
         </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {variables.map((variable) => (
-          <div key={variable.name} className="space-y-2">
-            <label htmlFor={variable.name} className="block text-sm font-medium text-gray-700">
-              {variable.name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-              {variable.type && variable.type !== 'text' && (
-                <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                  {variable.type}
-                </span>
-              )}
-            </label>
-            <input
-              type={getInputType(variable.type || 'text')}
-              id={variable.name}
-              name={variable.name}
-              value={values[variable.name] || ''}
-              onChange={(e) => handleValueChange(variable.name, e.target.value)}
-              placeholder={getInputPlaceholder(variable)}
-              className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-black ${
-                errors[variable.name] 
-                  ? 'border-red-500 bg-red-50' 
-                  : 'border-gray-300'
-              }`}
-              disabled={isLoading}
-            />
-            {errors[variable.name] && (
-              <p className="text-sm text-red-600">{errors[variable.name]}</p>
+      <div className="space-y-8">
+        {groups.map(({ section, variables: sectionVariables }) => (
+          <fieldset key={section?.id ?? ''} className="space-y-4">
+            {section && (
+              <legend className="w-full border-b border-gray-200 pb-2 mb-2">
+                <span className="block text-lg font-semibold text-gray-900">{section.title}</span>
+                {section.description && (
+                  <span className="block text-sm text-gray-600">{section.description}</span>
+                )}
+              </legend>
             )}
-            <p className="text-xs text-gray-500">
-              Replaces: <code className="bg-gray-100 px-1 rounded">{variable.placeholder}</code>
-            </p>
-          </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {sectionVariables.map(renderVariable)}
+            </div>
+          </fieldset>
         ))}
       </div>
 
@@ -204,7 +595,7 @@ export default function VariableForm({
               Processing...
             </>
           ) : (
-            'Generate Preview'
+            'Continue to Export'
           )}
         </button>
       </div>
@@ -217,9 +608,98 @@ export default function VariableForm({
         <div className="text-blue-800 text-sm space-y-2">
           <p><strong>Basic:</strong> <code className="bg-blue-100 px-1 rounded">{'{{name}}'}</code> - Text field</p>
           <p><strong>Typed:</strong> <code className="bg-blue-100 px-1 rounded">{'{{email:email}}'}</code> - Email validation</p>
-          <p><strong>Other types:</strong> <code className="bg-blue-100 px-1 rounded">{'{{age:number}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{date:date}}'}</code></p>
+          <p><strong>Other types:</strong> <code className="bg-blue-100 px-1 rounded">{'{{age:number}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{date:date}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{notes:textarea}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{fee:currency}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{tel:phone}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{site:url}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{rush:boolean}}'}</code></p>
+          <p><strong>Images:</strong> <code className="bg-blue-100 px-1 rounded">{'{{logo:image}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{signature:image(120x40)}}'}</code> - Upload or link an image; optional size in points</p>
+          <p><strong>Choices:</strong> <code className="bg-blue-100 px-1 rounded">{'{{plan:select(basic|pro|enterprise)}}'}</code> - Dropdown</p>
+          <p><strong>Defaults &amp; optional:</strong> <code className="bg-blue-100 px-1 rounded">{'{{company:text=Acme}}'}</code> pre-fills a value, <code className="bg-blue-100 px-1 rounded">{'{{middle_name?}}'}</code> may be left empty</p>
+          <p><strong>Formatting:</strong> <code className="bg-blue-100 px-1 rounded">{'{{due_date|date:"MMMM d, yyyy"}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{amount|currency:USD}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{name|upper}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{n|words}}'}</code></p>
+          <p><strong>Conditional:</strong> <code className="bg-blue-100 px-1 rounded">{'{{#if late_fee}} ... {{else}} ... {{/if}}'}</code> - Checkbox to include or remove a section</p>
+          <p><strong>Calculated:</strong> <code className="bg-blue-100 px-1 rounded">{'{{total = subtotal * 1.1}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{end = start + 30d}}'}</code>, <code className="bg-blue-100 px-1 rounded">{'{{sum_total = sum(items.price)}}'}</code> - Computed from other fields (spaces around <code className="bg-blue-100 px-1 rounded">=</code>)</p>
+          <p><strong>Tables:</strong> <code className="bg-blue-100 px-1 rounded">{'{{pricing:table}}'}</code> in the row under a table&apos;s header - One table row per grid row; columns come from the header or <code className="bg-blue-100 px-1 rounded">{'{{pricing:table(Item|Qty|Price)}}'}</code></p>
+          <p><strong>Repeating:</strong> <code className="bg-blue-100 px-1 rounded">{'{{#each items}} {{description}} {{/each}}'}</code> - One copy per row (paragraphs or a table row)</p>
         </div>
       </div>
     </form>
   );
-}
\ No newline at end of file
+}
+
+/** True for variables created by an {{#if}} tag rather than a placeholder */
+function isCondition(variable: TemplateVariable): boolean {
+  return IF_OPEN_REGEX.test(variable.placeholder);
+}
+
+function getItemErrorKey(listName: string, itemIndex: number, fieldName: string): string {
+  return `${listName}.${itemIndex}.${fieldName}`;
+}
+
+function formatLabel(variable: TemplateVariable): string {
+  return variable.label || getDefaultLabel(variable.name);
+}
+
+function validateValue(variable: TemplateVariable, rawValue: string | undefined): string | null {
+  // An unchecked box is a valid answer, and calculated values are not entered
+  if (variable.type === 'boolean' || variable.expression) {
+    return null;
+  }
+  
+  const value = rawValue?.trim();
+  
+  if (!value) {
+    return variable.optional ? null : 'This field is required';
+  }
+  
+  // Type-specific validation
+  switch (variable.type) {
+    case 'email':
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(value)) {
+        return 'Please enter a valid email address';
+      }
+      break;
+    case 'number':
+      if (isNaN(Number(value))) {
+        return 'Please enter a valid number';
+      }
+      break;
+    case 'currency':
+      if (!/^-?\d+(\.\d{1,2})?$/.test(value)) {
+        return 'Please enter an amount like 1250.00';
+      }
+      break;
+    case 'date':
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return 'Please enter a valid date';
+      }
+      break;
+    case 'phone':
+      if (!/^\+?[\d\s().-]{7,}$/.test(value)) {
+        return 'Please enter a valid phone number';
+      }
+      break;
+    case 'url':
+      try {
+        new URL(value);
+      } catch {
+        return 'Please enter a full URL, including https://';
+      }
+      break;
+    case 'image':
+      if (!isImageSource(value)) {
+        return 'Please enter an image URL or a Google Drive link';
+      }
+      break;
+    case 'select':
+      if (variable.options && !variable.options.includes(value)) {
+        return `Please choose one of: ${variable.options.join(', ')}`;
+      }
+      break;
+  }
+
+  // Schema patterns must match the whole value
+  if (variable.pattern && !new RegExp(`^(?:${variable.pattern})$`).test(value)) {
+    return variable.patternMessage || 'Please match the required format';
+  }
+  
+  return null;
+}
@@ -0,0 +1,150 @@
+import { getServerSession, type NextAuthOptions } from "next-auth"
+import type { JWT } from "next-auth/jwt"
+import GoogleProvider from "next-auth/providers/google"
+
+// Refresh before Google's expiry so in-flight requests don't race it. The client only picks up
+// a new token when it polls the session (every 5 minutes, see SessionProvider), so the margin
+// must be longer than that interval or the client keeps using an expired token.
+const REFRESH_MARGIN_MS = 10 * 60 * 1000;
+
+// Extend the built-in session and JWT types
+declare module "next-auth" {
+  interface Session {
+    accessToken?: string;
+    error?: "RefreshAccessTokenError";
+    user?: {
+      name?: string;
+      email?: string;
+      image?: string;
+    }
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    accessToken?: string;
+    refreshToken?: string;
+    accessTokenExpires?: number; // Epoch milliseconds
+    error?: "RefreshAccessTokenError";
+  }
+}
+
+/**
+ * Exchange the refresh token for a new Google access token.
+ * On failure the token is flagged with RefreshAccessTokenError so the client can ask the user to sign in again.
+ */
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    if (!token.refreshToken) {
+      throw new Error("No refresh token available");
+    }
+
+    const response = await fetch("https://oauth2.googleapis.com/token", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded"
+      },
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID!,
+        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+        grant_type: "refresh_token",
+        refresh_token: token.refreshToken
+      })
+    });
+
+    const refreshed = await response.json();
+    if (!response.ok) {
+      throw new Error(`Failed to refresh access token: ${refreshed.error || response.statusText}`);
+    }
+
+    return {
+      ...token,
+      accessToken: refreshed.access_token,
+      accessTokenExpires: Date.now() + refreshed.expires_in * 1000,
+      // Google only returns a new refresh token when it rotates it
+      refreshToken: refreshed.refresh_token ?? token.refreshToken,
+      error: undefined
+    };
+  } catch (error) {
+    console.error("Error refreshing access token:", error);
+    return {
+      ...token,
+      error: "RefreshAccessTokenError"
+    };
+  }
+}
+
+// NextAuth configuration, shared by the auth route and server routes that call getServerSession
+export const authOptions: NextAuthOptions = {
+  providers: [
+    GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID!,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+      authorization: {
+        params: {
+          scope: "openid email profile https://www.googleapis.com/auth/documents https://www.googleapis.com/auth/drive",
+          // Needed for Google to issue a refresh token
+          access_type: "offline",
+          prompt: "consent"
+        }
+      }
+    })
+  ],
+  callbacks: {
+    async jwt({ token, account }) {
+      // Save the access token and refresh token to the JWT on the initial login
+      if (account) {
+        return {
+          ...token,
+          accessToken: account.access_token,
+          refreshToken: account.refresh_token,
+          accessTokenExpires: account.expires_at ? account.expires_at * 1000 : undefined,
+          error: undefined
+        };
+      }
+
+      // Return the current token while it is still valid
+      if (!token.accessTokenExpires || Date.now() < token.accessTokenExpires - REFRESH_MARGIN_MS) {
+        return token;
+      }
+
+      return refreshAccessToken(token);
+    },
+    async session({ session, token }) {
+      // Send properties to the client
+      return {
+        ...session,
+        accessToken: token.accessToken,
+        error: token.error
+      };
+    },
+  },
+  pages: {
+    signIn: '/auth/signin',
+    error: '/auth/error',
+  }
+};
+
+/**
+ * Google access token of the signed-in user, for use in server routes.
+ * Tokens are never accepted from request bodies; returns null when there is no usable session.
+ */
+export async function getSessionAccessToken(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken || session.error) {
+    return null;
+  }
+  return session.accessToken;
+}
+
+/**
+ * Access token and email of the signed-in user, for server routes that record who did what.
+ * Returns null when there is no usable session.
+ */
+export async function getSessionUser(): Promise<{ accessToken: string; email: string } | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.accessToken || session.error || !session.user?.email) {
+    return null;
+  }
+  return { accessToken: session.accessToken, email: session.user.email };
+}
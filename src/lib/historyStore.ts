@@ -0,0 +1,156 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { randomUUID } from "crypto"
+import type { GenerationRecord, GenerationReport, HistoryPage } from "@/utils/historyUtils"
+import { getReadableFile } from "@/utils/advancedDocsUtils"
+import { fetchDocumentRevision } from "@/utils/docsApiUtils"
+
+// Storage behind the generation history and audit log. Records are append-only: regenerating
+// a document adds a new record pointing at the old one.
+export interface HistoryStore {
+  add(record: Omit<GenerationRecord, "id" | "createdAt">): Promise<GenerationRecord>;
+  // A user's records, newest first, starting after the record with ID `before`
+  list(user: string, options: { limit: number; before?: string }): Promise<HistoryPage>;
+  get(user: string, id: string): Promise<GenerationRecord | null>;
+}
+
+// Available adapters, chosen with HISTORY_STORE (default "file"). Another backend such as
+// SQLite is added by implementing HistoryStore and listing its factory here.
+const HISTORY_STORES: Record<string, () => HistoryStore> = {
+  // JSON Lines file, HISTORY_FILE or .data/generation-history.jsonl in the working directory
+  file: () => createFileHistoryStore(process.env.HISTORY_FILE || path.join(process.cwd(), ".data", "generation-history.jsonl")),
+  // Lost on restart; for development and tests
+  memory: () => createMemoryHistoryStore()
+};
+
+let store: HistoryStore | null = null;
+
+/**
+ * The configured history store, created on first use
+ */
+export function getHistoryStore(): HistoryStore {
+  if (!store) {
+    const name = process.env.HISTORY_STORE || "file";
+    const factory = HISTORY_STORES[name];
+    if (!factory) {
+      throw new Error(`Unknown HISTORY_STORE "${name}" (expected one of: ${Object.keys(HISTORY_STORES).join(", ")})`);
+    }
+    store = factory();
+  }
+  return store;
+}
+
+/**
+ * Record a generated document for a user. The template name and its current revision are read
+ * with the user's token, so only documents the user can read are recorded; returns null otherwise.
+ */
+export async function addGenerationRecord(
+  report: GenerationReport,
+  user: { accessToken: string; email: string },
+  regeneratedFrom?: string
+): Promise<GenerationRecord | null> {
+  const [template, document] = await Promise.all([
+    getReadableFile(report.templateId, user.accessToken),
+    getReadableFile(report.documentId, user.accessToken)
+  ]);
+  if (!template || !document) {
+    return null;
+  }
+
+  // The record is still worth keeping without a revision
+  const templateRevision = await fetchDocumentRevision(report.templateId, user.accessToken).catch(error => {
+    console.error("Error reading template revision:", error);
+    return undefined;
+  });
+
+  return getHistoryStore().add({
+    templateId: report.templateId,
+    templateName: template.name,
+    templateRevision,
+    title: report.title,
+    values: report.values,
+    documentId: report.documentId,
+    format: report.format,
+    source: report.source,
+    user: user.email,
+    regeneratedFrom
+  });
+}
+
+function createRecord(record: Omit<GenerationRecord, "id" | "createdAt">): GenerationRecord {
+  return { ...record, id: randomUUID(), createdAt: new Date().toISOString() };
+}
+
+/**
+ * Page through records stored oldest first
+ */
+function pageRecords(records: GenerationRecord[], user: string, limit: number, before?: string): HistoryPage {
+  const own = records.filter(record => record.user === user).reverse();
+  // An unknown cursor gives an empty page rather than starting over
+  const start = before ? (own.findIndex(record => record.id === before) + 1 || own.length) : 0;
+  const page = own.slice(start, start + limit);
+  return {
+    records: page,
+    nextCursor: start + limit < own.length ? page[page.length - 1]?.id : undefined
+  };
+}
+
+function createMemoryHistoryStore(): HistoryStore {
+  const records: GenerationRecord[] = [];
+  return {
+    async add(record) {
+      const created = createRecord(record);
+      records.push(created);
+      return created;
+    },
+    async list(user, { limit, before }) {
+      return pageRecords(records, user, limit, before);
+    },
+    async get(user, id) {
+      return records.find(record => record.id === id && record.user === user) || null;
+    }
+  };
+}
+
+/**
+ * One JSON record per line, appended in creation order. Reads parse the whole file, which
+ * is fine for the history of a local or single-team installation.
+ */
+function createFileHistoryStore(filePath: string): HistoryStore {
+  // Appends are chained so concurrent requests never interleave lines
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<GenerationRecord[]> => {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return content.split("\n").filter(line => line.trim()).map(line => JSON.parse(line));
+  };
+
+  return {
+    async add(record) {
+      const created = createRecord(record);
+      const append = writes.then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.appendFile(filePath, JSON.stringify(created) + "\n", "utf8");
+      });
+      writes = append.catch(() => undefined);
+      await append;
+      return created;
+    },
+    async list(user, { limit, before }) {
+      await writes;
+      return pageRecords(await readAll(), user, limit, before);
+    },
+    async get(user, id) {
+      await writes;
+      return (await readAll()).find(record => record.id === id && record.user === user) || null;
+    }
+  };
+}
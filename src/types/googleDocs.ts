@@ -0,0 +1,168 @@
+// Google Docs API document structure (the subset the generator reads and writes)
+// See https://developers.google.com/docs/api/reference/rest/v1/documents
+
+export interface GoogleDimension {
+  magnitude?: number;
+  unit?: string;
+}
+
+export interface GoogleOptionalColor {
+  color?: {
+    rgbColor?: { red?: number; green?: number; blue?: number };
+  };
+}
+
+export interface GoogleTextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  smallCaps?: boolean;
+  baselineOffset?: string;
+  fontSize?: GoogleDimension;
+  foregroundColor?: GoogleOptionalColor;
+  backgroundColor?: GoogleOptionalColor;
+  link?: { url?: string; bookmarkId?: string; headingId?: string };
+  weightedFontFamily?: { fontFamily?: string; weight?: number };
+}
+
+export interface GoogleParagraphStyle {
+  namedStyleType?: string;
+  alignment?: string;
+  lineSpacing?: number;
+  direction?: string;
+  spacingMode?: string;
+  spaceAbove?: GoogleDimension;
+  spaceBelow?: GoogleDimension;
+  indentFirstLine?: GoogleDimension;
+  indentStart?: GoogleDimension;
+  indentEnd?: GoogleDimension;
+  keepLinesTogether?: boolean;
+  keepWithNext?: boolean;
+  avoidWidowAndOrphan?: boolean;
+  headingId?: string;
+}
+
+export interface GoogleTextRun {
+  content?: string;
+  textStyle?: GoogleTextStyle;
+}
+
+export interface GoogleParagraphElement {
+  startIndex?: number;
+  endIndex?: number;
+  textRun?: GoogleTextRun;
+  inlineObjectElement?: { inlineObjectId?: string; textStyle?: GoogleTextStyle };
+  footnoteReference?: { footnoteId?: string; footnoteNumber?: string; textStyle?: GoogleTextStyle };
+  horizontalRule?: Record<string, unknown>;
+  pageBreak?: Record<string, unknown>;
+}
+
+export interface GoogleParagraph {
+  elements?: GoogleParagraphElement[];
+  paragraphStyle?: GoogleParagraphStyle;
+  bullet?: { listId?: string; nestingLevel?: number; textStyle?: GoogleTextStyle };
+}
+
+export interface GoogleTableCellBorder {
+  color?: GoogleOptionalColor;
+  width?: GoogleDimension;
+  dashStyle?: string;
+}
+
+export interface GoogleTableCellStyle {
+  backgroundColor?: GoogleOptionalColor;
+  contentAlignment?: string;
+  paddingLeft?: GoogleDimension;
+  paddingRight?: GoogleDimension;
+  paddingTop?: GoogleDimension;
+  paddingBottom?: GoogleDimension;
+  borderLeft?: GoogleTableCellBorder;
+  borderRight?: GoogleTableCellBorder;
+  borderTop?: GoogleTableCellBorder;
+  borderBottom?: GoogleTableCellBorder;
+  rowSpan?: number;
+  columnSpan?: number;
+}
+
+export interface GoogleTableCell {
+  startIndex?: number;
+  endIndex?: number;
+  content?: GoogleStructuralElement[];
+  tableCellStyle?: GoogleTableCellStyle;
+}
+
+export interface GoogleTableRow {
+  startIndex?: number;
+  endIndex?: number;
+  tableCells?: GoogleTableCell[];
+}
+
+export interface GoogleTable {
+  rows?: number;
+  columns?: number;
+  tableRows?: GoogleTableRow[];
+}
+
+export interface GoogleStructuralElement {
+  startIndex?: number;
+  endIndex?: number;
+  paragraph?: GoogleParagraph;
+  table?: GoogleTable;
+  sectionBreak?: Record<string, unknown>;
+  tableOfContents?: { content?: GoogleStructuralElement[] };
+}
+
+// Headers, footers and footnotes are separate segments with their own content and indices
+export interface GoogleSegment {
+  headerId?: string;
+  footerId?: string;
+  footnoteId?: string;
+  content?: GoogleStructuralElement[];
+}
+
+export interface GoogleNestingLevel {
+  glyphType?: string;
+  glyphSymbol?: string;
+  glyphFormat?: string; // e.g. "%0." or "%0.%1." (nested numbering)
+  startNumber?: number;
+}
+
+export interface GoogleList {
+  listProperties?: { nestingLevels?: GoogleNestingLevel[] };
+}
+
+export interface GoogleInlineObject {
+  inlineObjectProperties?: {
+    embeddedObject?: {
+      title?: string;
+      description?: string;
+      imageProperties?: { contentUri?: string; sourceUri?: string };
+      size?: { width?: GoogleDimension; height?: GoogleDimension };
+    };
+  };
+}
+
+export interface GoogleDocument {
+  documentId?: string;
+  title?: string;
+  revisionId?: string;
+  body?: {
+    content?: GoogleStructuralElement[];
+  };
+  documentStyle?: {
+    defaultHeaderId?: string;
+    defaultFooterId?: string;
+    firstPageHeaderId?: string;
+    firstPageFooterId?: string;
+    useFirstPageHeaderFooter?: boolean;
+  };
+  headers?: Record<string, GoogleSegment>;
+  footers?: Record<string, GoogleSegment>;
+  footnotes?: Record<string, GoogleSegment>;
+  lists?: Record<string, GoogleList>;
+  inlineObjects?: Record<string, GoogleInlineObject>;
+}
+
+// A single entry of a documents.batchUpdate request list
+export type DocsRequest = Record<string, unknown>;
@@ -1,3 +1,5 @@
+import "next-auth";
+
 declare module "next-auth" {
   interface Session {
     accessToken?: string
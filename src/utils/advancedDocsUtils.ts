@@ -1,56 +1,27 @@
 // Advanced Google Docs utilities that preserve formatting
 
-// Google Docs API type definitions
-interface GoogleDocument {
-  body: {
-    content: Array<{
-      paragraph?: GoogleParagraph;
-      table?: GoogleTable;
-      sectionBreak?: Record<string, unknown>;
-    }>;
-  };
-}
-
-interface GoogleParagraph {
-  paragraphStyle?: {
-    alignment?: string;
-    lineSpacing?: number;
-    indentFirstLine?: { magnitude?: number; unit?: string };
-    indentStart?: { magnitude?: number; unit?: string };
-    spaceAbove?: { magnitude?: number; unit?: string };
-    spaceBelow?: { magnitude?: number; unit?: string };
-  };
-  elements: Array<{
-    textRun?: GoogleTextRun;
-    inlineObjectElement?: Record<string, unknown>;
-    pageBreak?: Record<string, unknown>;
-  }>;
-}
-
-interface GoogleTextRun {
-  content: string;
-  textStyle?: {
-    bold?: boolean;
-    italic?: boolean;
-    underline?: boolean;
-    strikethrough?: boolean;
-    fontSize?: { magnitude?: number; unit?: string };
-    foregroundColor?: { color?: { rgbColor?: { red?: number; green?: number; blue?: number } } };
-    backgroundColor?: { color?: { rgbColor?: { red?: number; green?: number; blue?: number } } };
-    link?: { url?: string };
-    weightedFontFamily?: { fontFamily?: string };
-  };
-}
-
-interface GoogleTable {
-  tableRows: Array<{
-    tableCells: Array<{
-      content: Array<{
-        paragraph?: GoogleParagraph;
-      }>;
-    }>;
-  }>;
-}
+import {
+  PLACEHOLDER_REGEX,
+  computeValues,
+  findComputedPlaceholders,
+  parsePlaceholder,
+  resolvePlaceholderValue,
+  type ParsedPlaceholder,
+  type VariableValues
+} from './googleDocsUtils';
+import { batchUpdateDocument, fetchDocumentJson } from './docsApiUtils';
+import {
+  collectDocumentParagraphs,
+  expandRepeatingSections,
+  fillDynamicTables,
+  findTags,
+  inSegment,
+  removeConditionalSections,
+  type TagMatch
+} from './blockUtils';
+import { insertImageRequests, prepareImageSources } from './imageUtils';
+import { renderDocumentHtml } from './docsHtmlUtils';
+import type { DocsRequest } from '@/types/googleDocs';
 
 export interface TemplateVariable {
   name: string;
@@ -58,18 +29,30 @@ export interface TemplateVariable {
   type?: 'text' | 'number' | 'date' | 'email';
 }
 
+export interface GeneratedDocument {
+  documentId: string;
+  unresolvedPlaceholders: string[]; // Placeholders still in the document, e.g. {{missing}}
+}
+
+// Drive appProperties tag marking a generated document (a preview copy carries its own tag instead)
+export const GENERATED_APP_PROPERTIES = { docsGeneratorRole: 'generated' };
+
 /**
  * Copy a Google Doc to preserve all formatting
+ * (appProperties are private Drive tags that let the app find its copies again).
+ * Drive copies keep the source's folders and appProperties, so the copy is placed in the
+ * user's My Drive and the template's tags (role, library tags, schema) are removed from it.
  */
 export async function copyDocument(
   originalDocId: string, 
   newTitle: string, 
-  accessToken: string
+  accessToken: string,
+  appProperties: Record<string, string> = {}
 ): Promise<string> {
   try {
     // Use Google Drive API to copy the document
     const response = await fetch(
-      `https://www.googleapis.com/drive/v3/files/${originalDocId}/copy`,
+      `https://www.googleapis.com/drive/v3/files/${originalDocId}/copy?supportsAllDrives=true&fields=id,appProperties`,
       {
         method: 'POST',
         headers: {
@@ -77,7 +60,9 @@ export async function copyDocument(
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          name: newTitle
+          name: newTitle,
+          parents: ['root'],
+          appProperties
         })
       }
     );
@@ -89,6 +74,14 @@ export async function copyDocument(
     }
 
     const result = await response.json();
+    const inherited = Object.keys(result.appProperties || {}).filter(key => !(key in appProperties));
+    if (inherited.length > 0) {
+      await updateDocumentMetadata(
+        result.id,
+        { appProperties: Object.fromEntries(inherited.map(key => [key, null])) },
+        accessToken
+      );
+    }
     return result.id;
   } catch (error) {
     console.error('Error copying document:', error);
@@ -97,236 +90,180 @@ export async function copyDocument(
 }
 
 /**
- * Find and replace variables in a document while preserving formatting
+ * Update Drive metadata of a file (name, trashed and starred flags, appProperties; a null property removes it)
  */
-export async function replaceVariablesInDocument(
+export async function updateDocumentMetadata(
   documentId: string,
-  variables: Record<string, string>,
+  metadata: { name?: string; trashed?: boolean; starred?: boolean; appProperties?: Record<string, string | null> },
   accessToken: string
 ): Promise<void> {
   try {
-    // Create batch update requests for each variable
-    const requests = [];
-    
-    for (const [variableName, value] of Object.entries(variables)) {
-      // Handle different variable formats
-      const patterns = [
-        `{{${variableName}}}`,
-        `{{ ${variableName} }}`,
-        `{{${variableName}:text}}`,
-        `{{${variableName}:email}}`,
-        `{{${variableName}:number}}`,
-        `{{${variableName}:date}}`
-      ];
-      
-      for (const pattern of patterns) {
-        requests.push({
-          replaceAllText: {
-            containsText: {
-              text: pattern,
-              matchCase: false
-            },
-            replaceText: value || ''
-          }
-        });
-      }
-    }
-
-    if (requests.length === 0) {
-      return;
-    }
-
-    // Execute batch update
     const response = await fetch(
-      `https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`,
+      `https://www.googleapis.com/drive/v3/files/${documentId}?supportsAllDrives=true`,
       {
-        method: 'POST',
+        method: 'PATCH',
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          requests
-        })
+        body: JSON.stringify(metadata)
       }
     );
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Failed to update document: ${response.statusText} - ${errorText}`);
+      throw new Error(`Failed to update document metadata: ${response.statusText} - ${errorText}`);
     }
-
   } catch (error) {
-    console.error('Error replacing variables in document:', error);
+    console.error('Error updating document metadata:', error);
     throw error;
   }
 }
 
 /**
- * Get document as HTML for preview (preserves some formatting)
+ * Move a Drive file to the trash (recoverable for 30 days)
  */
-export async function getDocumentAsHtml(
+export async function trashDocument(documentId: string, accessToken: string): Promise<void> {
+  await updateDocumentMetadata(documentId, { trashed: true }, accessToken);
+}
+
+/**
+ * Find and replace variables in a document while preserving formatting
+ * (list values are handled by expandRepeatingSections).
+ * Every placeholder occurrence is located in the document itself (body, headers, footers and
+ * footnotes), so any spelling ({{name}}, {{ name:date }}, {{x :email}}, ...) is replaced at
+ * its exact range;
+ * {{logo:image}} placeholders become inline images.
+ * Returns the placeholders that were left in the document (no value, or not parseable).
+ */
+export async function replaceVariablesInDocument(
   documentId: string,
+  variables: VariableValues,
   accessToken: string
-): Promise<string> {
+): Promise<string[]> {
   try {
-    // Export document as HTML
-    const response = await fetch(
-      `https://docs.googleapis.com/v1/documents/${documentId}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
-      }
+    const doc = await fetchDocumentJson(documentId, accessToken);
+    const occurrences = findTags(collectDocumentParagraphs(doc), PLACEHOLDER_REGEX);
+    const values = computeValues(
+      findComputedPlaceholders(occurrences.map(occurrence => occurrence.match[0]).join('')),
+      variables
     );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch document: ${response.statusText}`);
+    
+    const replacements: Array<{ occurrence: TagMatch; parsed: ParsedPlaceholder; value: string }> = [];
+    const unresolved = new Set<string>();
+    
+    // Replace from the end of each segment so earlier ranges stay valid
+    for (const occurrence of [...occurrences].sort((a, b) => b.startIndex - a.startIndex)) {
+      const parsed = parsePlaceholder(occurrence.match[1]);
+      const value = parsed ? resolvePlaceholderValue(parsed, values) : undefined;
+      if (!parsed || value === undefined) {
+        unresolved.add(occurrence.match[0]);
+        continue;
+      }
+      replacements.push({ occurrence, parsed, value });
     }
-
-    const doc = await response.json();
-    return convertDocumentToHtml(doc);
+    
+    const imageValues = replacements.filter(r => r.parsed.type === 'image' && r.value).map(r => r.value);
+    const images = await prepareImageSources(imageValues, accessToken);
+    
+    try {
+      const requests = replacements.flatMap(({ occurrence, parsed, value }) => {
+        const { segmentId } = occurrence.paragraph;
+        if (parsed.type !== 'image' || !value) {
+          return inSegment(replaceRangeRequests(occurrence.startIndex, occurrence.endIndex, value), segmentId);
+        }
+        
+        const uri = images.uris.get(value);
+        if (!uri) {
+          unresolved.add(occurrence.match[0]);
+          return [];
+        }
+        return inSegment(insertImageRequests(occurrence.startIndex, occurrence.endIndex, uri, parsed.imageSize), segmentId);
+      });
+      
+      // Execute batch update
+      await batchUpdateDocument(documentId, requests, accessToken);
+    } finally {
+      await images.release();
+    }
+    
+    return [...unresolved];
   } catch (error) {
-    console.error('Error getting document as HTML:', error);
+    console.error('Error replacing variables in document:', error);
     throw error;
   }
 }
 
 /**
- * Convert Google Docs structure to HTML (preserving basic formatting)
+ * Requests replacing [startIndex, endIndex) with text. The text is inserted after the
+ * range's first character so it takes that character's style, then the old text is deleted.
  */
-function convertDocumentToHtml(doc: GoogleDocument): string {
-  let html = '';
-  
-  if (doc.body && doc.body.content) {
-    for (const element of doc.body.content) {
-      if (element.paragraph) {
-        html += convertParagraphToHtml(element.paragraph);
-      } else if (element.table) {
-        html += convertTableToHtml(element.table);
-      } else if (element.sectionBreak) {
-        html += '<hr>';
-      }
-    }
+function replaceRangeRequests(startIndex: number, endIndex: number, text: string): DocsRequest[] {
+  if (!text) {
+    return [{ deleteContentRange: { range: { startIndex, endIndex } } }];
   }
   
-  return html;
+  return [
+    { insertText: { location: { index: startIndex + 1 }, text } },
+    { deleteContentRange: { range: { startIndex: startIndex + 1 + text.length, endIndex: endIndex + text.length } } },
+    { deleteContentRange: { range: { startIndex, endIndex: startIndex + 1 } } }
+  ];
 }
 
-function convertParagraphToHtml(paragraph: GoogleParagraph): string {
-  let paragraphHtml = '<p';
-  
-  // Add paragraph styling
-  if (paragraph.paragraphStyle) {
-    const style = paragraph.paragraphStyle;
-    const styles = [];
-    
-    if (style.alignment) {
-      styles.push(`text-align: ${style.alignment.toLowerCase()}`);
-    }
-    if (style.spaceAbove && style.spaceAbove.magnitude !== undefined && style.spaceAbove.unit) {
-      styles.push(`margin-top: ${style.spaceAbove.magnitude}${style.spaceAbove.unit.toLowerCase()}`);
-    }
-    if (style.spaceBelow && style.spaceBelow.magnitude !== undefined && style.spaceBelow.unit) {
-      styles.push(`margin-bottom: ${style.spaceBelow.magnitude}${style.spaceBelow.unit.toLowerCase()}`);
-    }
-    
-    if (styles.length > 0) {
-      paragraphHtml += ` style="${styles.join('; ')}"`;
-    }
-  }
-  
-  paragraphHtml += '>';
-  
-  // Process paragraph elements
-  if (paragraph.elements) {
-    for (const element of paragraph.elements) {
-      if (element.textRun) {
-        paragraphHtml += convertTextRunToHtml(element.textRun);
-      } else if (element.pageBreak) {
-        paragraphHtml += '<div style="page-break-before: always;"></div>';
-      }
-    }
+/**
+ * Get document as HTML for preview (see renderDocumentHtml)
+ */
+export async function getDocumentAsHtml(
+  documentId: string,
+  accessToken: string
+): Promise<string> {
+  try {
+    const doc = await fetchDocumentJson(documentId, accessToken);
+    return renderDocumentHtml(doc);
+  } catch (error) {
+    console.error('Error getting document as HTML:', error);
+    throw error;
   }
-  
-  paragraphHtml += '</p>';
-  return paragraphHtml;
 }
 
-function convertTextRunToHtml(textRun: GoogleTextRun): string {
-  let text = textRun.content || '';
+/**
+ * Generate a filled document by copying the template and resolving all template syntax.
+ * If a step fails, the copy is trashed before the error is rethrown.
+ */
+export async function generateDocument(
+  templateDocId: string,
+  newTitle: string,
+  variables: VariableValues,
+  accessToken: string,
+  appProperties: Record<string, string> = GENERATED_APP_PROPERTIES
+): Promise<GeneratedDocument> {
+  // Step 1: Copy the original document
+  const newDocId = await copyDocument(templateDocId, newTitle, accessToken, appProperties);
   
-  if (textRun.textStyle) {
-    const style = textRun.textStyle;
-    
-    // Apply formatting
-    if (style.bold) {
-      text = `<strong>${text}</strong>`;
-    }
-    if (style.italic) {
-      text = `<em>${text}</em>`;
-    }
-    if (style.underline) {
-      text = `<u>${text}</u>`;
-    }
-    if (style.strikethrough) {
-      text = `<s>${text}</s>`;
-    }
+  try {
+    // Step 2: Drop {{#if}} branches that do not apply
+    await removeConditionalSections(newDocId, variables, accessToken);
     
-    // Apply colors and fonts
-    const styles = [];
-    if (style.foregroundColor && style.foregroundColor.color) {
-      const color = style.foregroundColor.color;
-      if (color.rgbColor) {
-        const rgb = color.rgbColor;
-        if (rgb.red !== undefined && rgb.green !== undefined && rgb.blue !== undefined) {
-          styles.push(`color: rgb(${Math.round(rgb.red * 255)}, ${Math.round(rgb.green * 255)}, ${Math.round(rgb.blue * 255)})`); 
-        }
-      }
-    }
+    // Step 3: Repeat {{#each}} sections for list values
+    await expandRepeatingSections(newDocId, variables, accessToken);
     
-    if (style.fontSize && style.fontSize.magnitude !== undefined && style.fontSize.unit) {
-      styles.push(`font-size: ${style.fontSize.magnitude}${style.fontSize.unit.toLowerCase()}`);
-    }
+    // Step 4: Grow {{name:table}} tables to the number of value rows
+    await fillDynamicTables(newDocId, variables, accessToken);
     
-    if (style.weightedFontFamily?.fontFamily) {
-      styles.push(`font-family: ${style.weightedFontFamily.fontFamily}`);
+    // Step 5: Replace variables in the copied document
+    const unresolvedPlaceholders = await replaceVariablesInDocument(newDocId, variables, accessToken);
+    if (unresolvedPlaceholders.length > 0) {
+      console.warn(`Unresolved placeholders in ${newDocId}:`, unresolvedPlaceholders);
     }
     
-    if (styles.length > 0) {
-      text = `<span style="${styles.join('; ')}">${text}</span>`;
-    }
-  }
-  
-  return text;
-}
-
-function convertTableToHtml(table: GoogleTable): string {
-  let tableHtml = '<table style="border-collapse: collapse; width: 100%;">';
-  
-  if (table.tableRows) {
-    for (const row of table.tableRows) {
-      tableHtml += '<tr>';
-      if (row.tableCells) {
-        for (const cell of row.tableCells) {
-          tableHtml += '<td style="border: 1px solid #ccc; padding: 8px;">';
-          if (cell.content) {
-            for (const content of cell.content) {
-              if (content.paragraph) {
-                tableHtml += convertParagraphToHtml(content.paragraph);
-              }
-            }
-          }
-          tableHtml += '</td>';
-        }
-      }
-      tableHtml += '</tr>';
-    }
+    return { documentId: newDocId, unresolvedPlaceholders };
+  } catch (error) {
+    // A half-filled copy is of no use and nothing else would ever clean it up
+    await trashDocument(newDocId, accessToken).catch(trashError => {
+      console.error(`Error trashing the incomplete document ${newDocId}:`, trashError);
+    });
+    throw error;
   }
-  
-  tableHtml += '</table>';
-  return tableHtml;
 }
 
 /**
@@ -335,25 +272,84 @@ function convertTableToHtml(table: GoogleTable): string {
 export async function createFormattedDocument(
   templateDocId: string,
   newTitle: string,
-  variables: Record<string, string>,
+  variables: VariableValues,
   accessToken: string
-): Promise<{ documentId: string; previewHtml: string }> {
+): Promise<GeneratedDocument & { previewHtml: string }> {
   try {
-    // Step 1: Copy the original document
-    const newDocId = await copyDocument(templateDocId, newTitle, accessToken);
+    const generated = await generateDocument(templateDocId, newTitle, variables, accessToken);
     
-    // Step 2: Replace variables in the copied document
-    await replaceVariablesInDocument(newDocId, variables, accessToken);
-    
-    // Step 3: Get HTML preview
-    const previewHtml = await getDocumentAsHtml(newDocId, accessToken);
+    // Get HTML preview
+    const previewHtml = await getDocumentAsHtml(generated.documentId, accessToken);
     
     return {
-      documentId: newDocId,
+      ...generated,
       previewHtml
     };
   } catch (error) {
     console.error('Error creating formatted document:', error);
     throw error;
   }
+}
+
+/**
+ * Look up a Drive file the token's user can read (and download).
+ * Drive answers 404 for files the user cannot see, so any failure returns null.
+ */
+export async function getReadableFile(
+  documentId: string,
+  accessToken: string
+): Promise<{ id: string; name: string } | null> {
+  try {
+    const response = await fetch(
+      `https://www.googleapis.com/drive/v3/files/${encodeURIComponent(documentId)}?fields=id,name,capabilities(canDownload)&supportsAllDrives=true`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const file = await response.json();
+    if (file.capabilities?.canDownload === false) {
+      return null;
+    }
+    return { id: file.id, name: file.name || 'Untitled Document' };
+  } catch (error) {
+    console.error('Error checking document access:', error);
+    return null;
+  }
+}
+
+/**
+ * Export a Google Doc to another format (e.g. application/pdf) via the Drive API
+ */
+export async function exportDocument(
+  documentId: string,
+  mimeType: string,
+  accessToken: string
+): Promise<ArrayBuffer> {
+  try {
+    const response = await fetch(
+      `https://www.googleapis.com/drive/v3/files/${documentId}/export?mimeType=${encodeURIComponent(mimeType)}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to export document: ${response.statusText} - ${errorText}`);
+    }
+
+    return response.arrayBuffer();
+  } catch (error) {
+    console.error('Error exporting document:', error);
+    throw error;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,211 @@
+// Utilities for generating many documents from tabular data (CSV or Google Sheets)
+
+import { generateDocument } from './advancedDocsUtils';
+import { recordGeneration } from './historyUtils';
+import { replaceVariables, type TemplateVariable } from './googleDocsUtils';
+
+export interface TabularData {
+  headers: string[];
+  rows: string[][];
+}
+
+// Maps a template variable name to the index of the column that feeds it (-1 = unmapped)
+export type ColumnMapping = Record<string, number>;
+
+export interface BatchRowResult {
+  rowIndex: number;
+  title: string;
+  status: 'pending' | 'running' | 'success' | 'error';
+  documentId?: string;
+  documentUrl?: string;
+  unresolvedPlaceholders?: string[];
+  error?: string;
+}
+
+/**
+ * Parse CSV text into headers and rows (RFC 4180: quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(text: string): TabularData {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last record if the file doesn't end with a newline
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+
+  return {
+    headers: headers.map(h => h.trim()),
+    rows
+  };
+}
+
+/**
+ * Fetch a range of values from a Google Sheet (first row is treated as headers)
+ */
+export async function fetchSheetRows(
+  spreadsheetId: string,
+  range: string,
+  accessToken: string
+): Promise<TabularData> {
+  try {
+    const response = await fetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to fetch sheet values: ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const values: string[][] = (data.values || []).map((row: unknown[]) => row.map(cell => String(cell ?? '')));
+    const [headers = [], ...rows] = values;
+
+    return {
+      headers: headers.map(h => h.trim()),
+      rows
+    };
+  } catch (error) {
+    console.error('Error fetching sheet rows:', error);
+    throw error;
+  }
+}
+
+/**
+ * Extract the spreadsheet ID from a Google Sheets URL (or return the input if it is already an ID)
+ */
+export function parseSpreadsheetId(input: string): string {
+  const match = input.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  return match ? match[1] : input.trim();
+}
+
+/**
+ * Guess which column feeds each variable by comparing normalized names
+ */
+export function autoMapColumns(headers: string[], variables: TemplateVariable[]): ColumnMapping {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const normalizedHeaders = headers.map(normalize);
+  const mapping: ColumnMapping = {};
+
+  for (const variable of variables) {
+    mapping[variable.name] = normalizedHeaders.indexOf(normalize(variable.name));
+  }
+
+  return mapping;
+}
+
+/**
+ * Build the variable values for a single row using the column mapping
+ */
+export function rowToValues(row: string[], mapping: ColumnMapping): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const [variableName, columnIndex] of Object.entries(mapping)) {
+    values[variableName] = columnIndex >= 0 ? (row[columnIndex] || '').trim() : '';
+  }
+
+  return values;
+}
+
+/**
+ * Generate one document per row, reporting progress after every row.
+ * Failures are recorded per row and do not stop the batch.
+ */
+export async function runBatchGeneration(
+  templateDocId: string,
+  titlePattern: string,
+  rows: string[][],
+  mapping: ColumnMapping,
+  accessToken: string,
+  onProgress: (results: BatchRowResult[]) => void
+): Promise<BatchRowResult[]> {
+  const results: BatchRowResult[] = rows.map((row, rowIndex) => ({
+    rowIndex,
+    title: replaceVariables(titlePattern, rowToValues(row, mapping)),
+    status: 'pending'
+  }));
+  onProgress([...results]);
+
+  for (let i = 0; i < rows.length; i++) {
+    results[i] = { ...results[i], status: 'running' };
+    onProgress([...results]);
+
+    try {
+      const values = rowToValues(rows[i], mapping);
+      const { documentId, unresolvedPlaceholders } = await generateDocument(
+        templateDocId,
+        results[i].title,
+        values,
+        accessToken
+      );
+      await recordGeneration({ templateId: templateDocId, title: results[i].title, values, documentId, format: 'gdoc', source: 'batch' });
+
+      results[i] = {
+        ...results[i],
+        status: 'success',
+        documentId,
+        documentUrl: `https://docs.google.com/document/d/${documentId}/edit`,
+        unresolvedPlaceholders
+      };
+    } catch (error) {
+      results[i] = {
+        ...results[i],
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    onProgress([...results]);
+  }
+
+  return results;
+}
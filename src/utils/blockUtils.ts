@@ -0,0 +1,954 @@
+// Template blocks that change the structure of a copied document
+// ({{#each list}} ... {{/each}} repeating sections, {{#if flag}} ... {{/if}} conditional sections
+// and {{name:table}} dynamic tables), in the body as well as in headers, footers and footnotes
+
+import type {
+  GoogleDocument,
+  GoogleParagraph,
+  GoogleParagraphStyle,
+  GoogleStructuralElement,
+  GoogleTable,
+  GoogleTableCell,
+  GoogleTableCellStyle,
+  GoogleTableRow,
+  GoogleTextStyle,
+  DocsRequest
+} from '@/types/googleDocs';
+import { fetchDocumentJson, batchUpdateDocument } from './docsApiUtils';
+import {
+  EACH_OPEN_REGEX,
+  EACH_CLOSE_REGEX,
+  IF_OPEN_REGEX,
+  ELSE_REGEX,
+  IF_CLOSE_REGEX,
+  PLACEHOLDER_REGEX,
+  fillItemFields,
+  getDocumentSegments,
+  getTableColumns,
+  isTruthyValue,
+  parsePlaceholder,
+  type ListItemValues,
+  type VariableValues
+} from './googleDocsUtils';
+
+// One block is expanded per fetch → update pass; this guards against templates that never converge
+// (reaching it is an error rather than a document left with raw tags)
+const MAX_BLOCK_PASSES = 50;
+
+// Numbered createParagraphBullets presets: glyph types of their first three nesting levels and
+// whether they number like "1)" or "1.1."
+const NUMBERED_PRESETS: Record<string, { glyphs: string[]; parens?: boolean; nested?: boolean }> = {
+  NUMBERED_DECIMAL_ALPHA_ROMAN: { glyphs: ['DECIMAL', 'ALPHA', 'ROMAN'] },
+  NUMBERED_DECIMAL_ALPHA_ROMAN_PARENS: { glyphs: ['DECIMAL', 'ALPHA', 'ROMAN'], parens: true },
+  NUMBERED_DECIMAL_NESTED: { glyphs: ['DECIMAL', 'DECIMAL', 'DECIMAL'], nested: true },
+  NUMBERED_UPPERALPHA_ALPHA_ROMAN: { glyphs: ['UPPER_ALPHA', 'ALPHA', 'ROMAN'] },
+  NUMBERED_UPPERROMAN_UPPERALPHA_DECIMAL: { glyphs: ['UPPER_ROMAN', 'UPPER_ALPHA', 'DECIMAL'] },
+  NUMBERED_ZERODECIMAL_ALPHA_ROMAN: { glyphs: ['ZERO_DECIMAL', 'ALPHA', 'ROMAN'] }
+};
+// Bulleted presets by the symbol of the list's first level (anything else falls back to discs)
+const BULLET_PRESETS: Record<string, string> = {
+  '❖': 'BULLET_DIAMONDX_ARROW3D_SQUARE',
+  '➔': 'BULLET_ARROW_DIAMOND_DISC',
+  '★': 'BULLET_STAR_CIRCLE_SQUARE',
+  '➢': 'BULLET_ARROW3D_CIRCLE_SQUARE',
+  '◆': 'BULLET_DIAMOND_CIRCLE_SQUARE'
+};
+const DEFAULT_BULLET_PRESET = 'BULLET_DISC_CIRCLE_SQUARE';
+
+// Paragraph style properties that can be written back with updateParagraphStyle
+const WRITABLE_PARAGRAPH_STYLE_FIELDS: Array<keyof GoogleParagraphStyle> = [
+  'namedStyleType',
+  'alignment',
+  'lineSpacing',
+  'direction',
+  'spacingMode',
+  'spaceAbove',
+  'spaceBelow',
+  'indentFirstLine',
+  'indentStart',
+  'indentEnd',
+  'keepLinesTogether',
+  'keepWithNext',
+  'avoidWidowAndOrphan'
+];
+
+// Table cell style properties that can be written back with updateTableCellStyle
+// (rowSpan and columnSpan are read-only)
+const WRITABLE_TABLE_CELL_STYLE_FIELDS: Array<keyof GoogleTableCellStyle> = [
+  'backgroundColor',
+  'contentAlignment',
+  'paddingLeft',
+  'paddingRight',
+  'paddingTop',
+  'paddingBottom',
+  'borderLeft',
+  'borderRight',
+  'borderTop',
+  'borderBottom'
+];
+
+// Request fields that address a position in a segment
+const SEGMENT_LOCATION_FIELDS = new Set(['range', 'location', 'tableStartLocation']);
+
+export interface CellLocation {
+  tableStartIndex: number;
+  rowIndex: number;
+  columnIndex: number;
+  row: GoogleTableRow;
+  cell: GoogleTableCell;
+}
+
+export interface LocatedParagraph {
+  paragraph: GoogleParagraph;
+  startIndex: number;
+  endIndex: number;
+  // One character per document index; non-text elements are represented by U+FFFC
+  text: string;
+  cell?: CellLocation;
+  segmentId?: string; // Set by collectDocumentParagraphs for headers, footers and footnotes
+}
+
+export interface TagMatch {
+  startIndex: number;
+  endIndex: number;
+  match: RegExpExecArray;
+  paragraph: LocatedParagraph;
+}
+
+// A slice of a text run that is copied (with its style) when a block is repeated
+interface Fragment {
+  text: string;
+  textStyle?: GoogleTextStyle;
+  paragraph: LocatedParagraph;
+  atParagraphStart?: boolean; // The fragment starts its paragraph, so list nesting can be restored
+}
+
+// Inserted list paragraphs, bulleted together once all text is in place
+interface BulletRange {
+  startIndex: number;
+  endIndex: number;
+  preset: string;
+}
+
+/**
+ * Flatten structural elements (including nested tables) into paragraphs with absolute indices.
+ * A table of contents is left out: Docs generates it from the headings (placeholders included)
+ * and does not accept edits inside it.
+ */
+export function collectParagraphs(
+  content: GoogleStructuralElement[] = [],
+  cell?: CellLocation
+): LocatedParagraph[] {
+  const paragraphs: LocatedParagraph[] = [];
+
+  for (const element of content) {
+    if (element.paragraph) {
+      paragraphs.push({
+        paragraph: element.paragraph,
+        startIndex: element.startIndex ?? 0,
+        endIndex: element.endIndex ?? 0,
+        text: getParagraphText(element.paragraph),
+        cell
+      });
+    } else if (element.table) {
+      const tableStartIndex = element.startIndex ?? 0;
+      (element.table.tableRows || []).forEach((row, rowIndex) => {
+        (row.tableCells || []).forEach((tableCell, columnIndex) => {
+          paragraphs.push(...collectParagraphs(tableCell.content, {
+            tableStartIndex,
+            rowIndex,
+            columnIndex,
+            row,
+            cell: tableCell
+          }));
+        });
+      });
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Paragraphs of every segment of a document, each tagged with its segment
+ */
+export function collectDocumentParagraphs(doc: GoogleDocument): LocatedParagraph[] {
+  return getDocumentSegments(doc).flatMap(segment =>
+    collectParagraphs(segment.content).map(paragraph => ({ ...paragraph, segmentId: segment.segmentId }))
+  );
+}
+
+/**
+ * Point the ranges and locations of requests built for one segment at that segment
+ * (requests without a segmentId address the body)
+ */
+export function inSegment(requests: DocsRequest[], segmentId?: string): DocsRequest[] {
+  if (!segmentId) {
+    return requests;
+  }
+
+  const withSegment = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(withSegment);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [
+      key,
+      SEGMENT_LOCATION_FIELDS.has(key) ? { ...(withSegment(child) as object), segmentId } : withSegment(child)
+    ]));
+  };
+
+  return requests.map(request => withSegment(request) as DocsRequest);
+}
+
+function getSegmentContent(doc: GoogleDocument, segmentId?: string): GoogleStructuralElement[] {
+  return getDocumentSegments(doc).find(segment => segment.segmentId === segmentId)?.content || [];
+}
+
+function getParagraphText(paragraph: GoogleParagraph): string {
+  let text = '';
+
+  for (const element of paragraph.elements || []) {
+    if (element.textRun) {
+      text += element.textRun.content || '';
+    } else {
+      const length = (element.endIndex ?? 0) - (element.startIndex ?? 0);
+      text += '\uFFFC'.repeat(Math.max(length, 0));
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Find every match of a tag pattern across the given paragraphs, in document order
+ */
+export function findTags(paragraphs: LocatedParagraph[], pattern: RegExp): TagMatch[] {
+  const tags: TagMatch[] = [];
+  const regex = new RegExp(pattern.source, 'g');
+
+  for (const paragraph of paragraphs) {
+    regex.lastIndex = 0;
+    let match;
+    while ((match = regex.exec(paragraph.text)) !== null) {
+      tags.push({
+        startIndex: paragraph.startIndex + match.index,
+        endIndex: paragraph.startIndex + match.index + match[0].length,
+        match,
+        paragraph
+      });
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Pair opening and closing tags; inner blocks are returned before the blocks that contain them
+ */
+export function pairTags(opens: TagMatch[], closes: TagMatch[]): Array<{ open: TagMatch; close: TagMatch }> {
+  const tags = [
+    ...opens.map(tag => ({ tag, isOpen: true })),
+    ...closes.map(tag => ({ tag, isOpen: false }))
+  ].sort((a, b) => a.tag.startIndex - b.tag.startIndex);
+
+  const stack: TagMatch[] = [];
+  const pairs: Array<{ open: TagMatch; close: TagMatch }> = [];
+
+  for (const { tag, isOpen } of tags) {
+    if (isOpen) {
+      stack.push(tag);
+    } else {
+      const open = stack.pop();
+      if (open) {
+        pairs.push({ open, close: tag });
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Whether a tag is the only text in its paragraph (so the whole paragraph belongs to the tag)
+ */
+export function isTagAlone(tag: TagMatch): boolean {
+  return tag.paragraph.text.trim() === tag.match[0];
+}
+
+/**
+ * Whether a paragraph is the last one of its segment or table cell (its newline cannot be deleted)
+ */
+export function isLastParagraph(paragraph: LocatedParagraph, segmentEndIndex: number): boolean {
+  const containerEnd = paragraph.cell ? paragraph.cell.cell.endIndex ?? 0 : segmentEndIndex;
+  return paragraph.endIndex >= containerEnd;
+}
+
+export function getSegmentEndIndex(content: GoogleStructuralElement[] = []): number {
+  return content.length > 0 ? content[content.length - 1].endIndex ?? 0 : 0;
+}
+
+/**
+ * Whether two tags live in the same text flow (both outside tables, or in the same table cell)
+ */
+export function inSameFlow(a: TagMatch, b: TagMatch): boolean {
+  if (a.paragraph.segmentId !== b.paragraph.segmentId) {
+    return false;
+  }
+  const cellA = a.paragraph.cell;
+  const cellB = b.paragraph.cell;
+  if (!cellA || !cellB) {
+    return !cellA && !cellB;
+  }
+  return cellA.cell === cellB.cell;
+}
+
+/**
+ * Find a table by its start index, searching nested tables as well
+ */
+export function findTable(content: GoogleStructuralElement[] = [], tableStartIndex: number): GoogleTable | null {
+  for (const element of content) {
+    if (!element.table) continue;
+    if (element.startIndex === tableStartIndex) {
+      return element.table;
+    }
+    for (const row of element.table.tableRows || []) {
+      for (const cell of row.tableCells || []) {
+        const nested = findTable(cell.content, tableStartIndex);
+        if (nested) return nested;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Collect the styled text between two indices, skipping excluded ranges.
+ * Inline objects (images, page breaks) cannot be recreated with insertText and are dropped.
+ */
+function collectFragments(
+  paragraphs: LocatedParagraph[],
+  startIndex: number,
+  endIndex: number,
+  exclude: Array<[number, number]> = []
+): Fragment[] {
+  const fragments: Fragment[] = [];
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.endIndex <= startIndex || paragraph.startIndex >= endIndex) continue;
+
+    for (const element of paragraph.paragraph.elements || []) {
+      if (!element.textRun) continue;
+
+      const elementStart = element.startIndex ?? 0;
+      const content = element.textRun.content || '';
+      let ranges: Array<[number, number]> = [[
+        Math.max(elementStart, startIndex),
+        Math.min(elementStart + content.length, endIndex)
+      ]];
+
+      for (const [excludeStart, excludeEnd] of exclude) {
+        ranges = ranges.flatMap(([from, to]): Array<[number, number]> => {
+          if (excludeEnd <= from || excludeStart >= to) return [[from, to]];
+          return [[from, excludeStart], [excludeEnd, to]];
+        });
+      }
+
+      for (const [from, to] of ranges) {
+        if (to > from) {
+          fragments.push({
+            text: content.slice(from - elementStart, to - elementStart),
+            textStyle: element.textRun.textStyle,
+            paragraph,
+            atParagraphStart: from === paragraph.startIndex
+          });
+        }
+      }
+    }
+  }
+
+  return fragments;
+}
+
+/**
+ * Render fragments for one list item at an insertion index.
+ * Returns the text to insert, the style requests that restore the original formatting and the
+ * list paragraphs to bullet (see bulletRequests). List paragraphs start with one tab per nesting
+ * level, which createParagraphBullets turns back into the nesting level.
+ */
+function renderFragments(
+  fragments: Fragment[],
+  item: ListItemValues,
+  insertIndex: number,
+  lists: GoogleDocument['lists']
+): { text: string; styleRequests: DocsRequest[]; bullets: BulletRange[] } {
+  let text = '';
+  const styleRequests: DocsRequest[] = [];
+  const bullets: BulletRange[] = [];
+  const paragraphRanges = new Map<LocatedParagraph, [number, number]>();
+
+  for (const fragment of fragments) {
+    const filled = fillItemFields(fragment.text, item);
+    if (!filled) continue;
+
+    const existing = paragraphRanges.get(fragment.paragraph);
+    const paragraphStart = insertIndex + text.length;
+    if (!existing && fragment.atParagraphStart) {
+      text += '\t'.repeat(fragment.paragraph.paragraph.bullet?.nestingLevel ?? 0);
+    }
+    const start = insertIndex + text.length;
+    text += filled;
+    const end = insertIndex + text.length;
+
+    styleRequests.push({
+      updateTextStyle: {
+        range: { startIndex: start, endIndex: end },
+        textStyle: fragment.textStyle || {},
+        fields: '*'
+      }
+    });
+
+    paragraphRanges.set(fragment.paragraph, existing ? [existing[0], end] : [paragraphStart, end]);
+  }
+
+  for (const [{ paragraph }, [startIndex, endIndex]] of paragraphRanges) {
+    styleRequests.push(...paragraphStyleRequests(paragraph, startIndex, endIndex));
+    if (paragraph.bullet) {
+      bullets.push({ startIndex, endIndex, preset: bulletPreset(paragraph, lists) });
+    } else {
+      styleRequests.push({ deleteParagraphBullets: { range: { startIndex, endIndex } } });
+    }
+  }
+
+  return { text, styleRequests, bullets };
+}
+
+/**
+ * The bullet preset closest to the glyphs of a paragraph's list, so numbered lists stay numbered.
+ * No preset numbers its first level with lowercase letters or numerals; those lists keep letters
+ * or numerals in uppercase.
+ */
+function bulletPreset(paragraph: GoogleParagraph, lists: GoogleDocument['lists']): string {
+  const listId = paragraph.bullet?.listId;
+  const levels = (listId && lists?.[listId]?.listProperties?.nestingLevels) || [];
+  const [top] = levels;
+
+  if (top?.glyphType && top.glyphType !== 'GLYPH_TYPE_UNSPECIFIED' && top.glyphType !== 'NONE') {
+    // Same glyph counts double, same kind (letters, numerals, digits) counts once; lower levels weigh less
+    const family = (glyphType?: string) => glyphType?.replace(/^(UPPER|ZERO)_/, '');
+    const score = ({ glyphs, parens = false, nested = false }: typeof NUMBERED_PRESETS[string]) =>
+      glyphs.reduce((total, glyph, index) => {
+        const weight = glyphs.length - index;
+        const glyphType = levels[index]?.glyphType;
+        return total + (glyphType === glyph ? 2 * weight : family(glyphType) === family(glyph) ? weight : 0);
+      }, 0)
+      + (parens === !!top.glyphFormat?.includes(')') ? 1 : 0)
+      + (nested === !!levels[1]?.glyphFormat?.includes('%0') ? 1 : 0);
+
+    return Object.entries(NUMBERED_PRESETS)
+      .reduce((best, candidate) => score(candidate[1]) > score(best[1]) ? candidate : best)[0];
+  }
+  return (top?.glyphSymbol && BULLET_PRESETS[top.glyphSymbol]) || DEFAULT_BULLET_PRESET;
+}
+
+/**
+ * Bullet the inserted list paragraphs with one request per run of adjacent paragraphs from the
+ * same kind of list, so a repeated numbered list keeps counting instead of restarting per item.
+ * createParagraphBullets removes the leading tabs it reads, shifting the text after them, so the
+ * requests go last and from the end of the document backwards.
+ */
+function bulletRequests(bullets: BulletRange[]): DocsRequest[] {
+  const runs: BulletRange[] = [];
+  for (const range of [...bullets].sort((a, b) => a.startIndex - b.startIndex)) {
+    const previous = runs[runs.length - 1];
+    if (previous && previous.preset === range.preset && range.startIndex <= previous.endIndex) {
+      previous.endIndex = Math.max(previous.endIndex, range.endIndex);
+    } else {
+      runs.push({ ...range });
+    }
+  }
+
+  return runs.reverse().map(({ startIndex, endIndex, preset }) => ({
+    createParagraphBullets: { range: { startIndex, endIndex }, bulletPreset: preset }
+  }));
+}
+
+function paragraphStyleRequests(
+  paragraph: GoogleParagraph,
+  startIndex: number,
+  endIndex: number
+): DocsRequest[] {
+  const range = { startIndex, endIndex };
+  const requests: DocsRequest[] = [];
+  const style = paragraph.paragraphStyle || {};
+  const fields = WRITABLE_PARAGRAPH_STYLE_FIELDS.filter(field => style[field] !== undefined);
+
+  if (fields.length > 0) {
+    const paragraphStyle: Partial<GoogleParagraphStyle> = {};
+    for (const field of fields) {
+      Object.assign(paragraphStyle, { [field]: style[field] });
+    }
+    requests.push({
+      updateParagraphStyle: { range, paragraphStyle, fields: fields.join(',') }
+    });
+  }
+
+  return requests;
+}
+
+/**
+ * Copy a template cell's style (background, borders, padding) onto another cell
+ */
+export function tableCellStyleRequest(
+  tableStartIndex: number,
+  rowIndex: number,
+  columnIndex: number,
+  cell: GoogleTableCell
+): DocsRequest | null {
+  const style = cell.tableCellStyle || {};
+  const fields = WRITABLE_TABLE_CELL_STYLE_FIELDS.filter(field => style[field] !== undefined);
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const tableCellStyle: Partial<GoogleTableCellStyle> = {};
+  for (const field of fields) {
+    Object.assign(tableCellStyle, { [field]: style[field] });
+  }
+
+  return {
+    updateTableCellStyle: {
+      tableCellStyle,
+      fields: fields.join(','),
+      tableRange: {
+        tableCellLocation: {
+          tableStartLocation: { index: tableStartIndex },
+          rowIndex,
+          columnIndex
+        },
+        rowSpan: 1,
+        columnSpan: 1
+      }
+    }
+  };
+}
+
+/**
+ * Fill consecutive table rows (starting at firstRowIndex) with one item each,
+ * rendering every cell from the matching template cell's fragments.
+ * Rows are processed bottom-up so earlier indices stay valid.
+ */
+function fillTableRowsRequests(
+  table: GoogleTable,
+  tableStartIndex: number,
+  firstRowIndex: number,
+  templateRow: GoogleTableRow,
+  cellFragments: Fragment[][],
+  items: ListItemValues[],
+  lists: GoogleDocument['lists']
+): DocsRequest[] {
+  const requests: DocsRequest[] = [];
+  const rows = table.tableRows || [];
+
+  for (let i = items.length - 1; i >= 0; i--) {
+    const rowIndex = firstRowIndex + i;
+    const cells = rows[rowIndex]?.tableCells || [];
+
+    for (let columnIndex = cells.length - 1; columnIndex >= 0; columnIndex--) {
+      const cell = cells[columnIndex];
+      const contentStart = cell.content?.[0]?.startIndex ?? 0;
+      const contentEnd = (cell.endIndex ?? 0) - 1;
+
+      if (contentEnd > contentStart) {
+        requests.push({ deleteContentRange: { range: { startIndex: contentStart, endIndex: contentEnd } } });
+      }
+
+      const { text, styleRequests, bullets } = renderFragments(cellFragments[columnIndex] || [], items[i], contentStart, lists);
+      if (text) {
+        requests.push({ insertText: { location: { index: contentStart }, text } });
+        requests.push(...styleRequests, ...bulletRequests(bullets));
+      }
+
+      const templateCell = templateRow.tableCells?.[columnIndex];
+      if (i > 0 && templateCell) {
+        const cellStyle = tableCellStyleRequest(tableStartIndex, rowIndex, columnIndex, templateCell);
+        if (cellStyle) requests.push(cellStyle);
+      }
+    }
+  }
+
+  return requests;
+}
+
+/**
+ * Expand {{#each list}} ... {{/each}} blocks in a copied document.
+ * Blocks whose tags sit in different cells of one table row repeat that row;
+ * all other blocks repeat the paragraphs (or inline text) between the tags.
+ */
+export async function expandRepeatingSections(
+  documentId: string,
+  values: VariableValues,
+  accessToken: string
+): Promise<void> {
+  try {
+    for (let pass = 0; pass < MAX_BLOCK_PASSES; pass++) {
+      const doc = await fetchDocumentJson(documentId, accessToken);
+      // Tags are paired per segment, since every segment starts its indices afresh
+      const found = getDocumentSegments(doc)
+        .map(segment => {
+          const paragraphs = collectParagraphs(segment.content);
+          const [block] = pairTags(findTags(paragraphs, EACH_OPEN_REGEX), findTags(paragraphs, EACH_CLOSE_REGEX));
+          return { segment, paragraphs, block };
+        })
+        .find(candidate => candidate.block);
+
+      if (!found) {
+        return;
+      }
+      const { segment, paragraphs, block } = found;
+
+      const listName = block.open.match[1];
+      const value = values[listName];
+      const items = Array.isArray(value) ? value : [];
+      const openCell = block.open.paragraph.cell;
+      const closeCell = block.close.paragraph.cell;
+
+      if (
+        openCell && closeCell &&
+        openCell.tableStartIndex === closeCell.tableStartIndex &&
+        openCell.rowIndex === closeCell.rowIndex &&
+        openCell.columnIndex !== closeCell.columnIndex
+      ) {
+        await expandTableRowBlock(documentId, doc, segment.segmentId, block.open, block.close, items, accessToken);
+      } else if (inSameFlow(block.open, block.close)) {
+        await batchUpdateDocument(
+          documentId,
+          inSegment(
+            rangeBlockRequests(paragraphs, getSegmentEndIndex(segment.content), block.open, block.close, items, doc.lists),
+            segment.segmentId
+          ),
+          accessToken
+        );
+      } else {
+        throw new Error(
+          `Unsupported repeating section "{{#each ${listName}}}": ` +
+          'the start and end tags must be in the same table row or in the same text flow'
+        );
+      }
+    }
+    throw new Error(
+      `Stopped after expanding ${MAX_BLOCK_PASSES} repeating sections; ` +
+      'the template has more {{#each}} sections (or nested repeats) than can be expanded'
+    );
+  } catch (error) {
+    console.error('Error expanding repeating sections:', error);
+    throw error;
+  }
+}
+
+function rangeBlockRequests(
+  paragraphs: LocatedParagraph[],
+  segmentEndIndex: number,
+  open: TagMatch,
+  close: TagMatch,
+  items: ListItemValues[],
+  lists: GoogleDocument['lists']
+): DocsRequest[] {
+  let deleteStart = open.startIndex;
+  let contentStart = open.endIndex;
+  let contentEnd = close.startIndex;
+  let deleteEnd = close.endIndex;
+
+  // Tags on their own line take their whole paragraph with them
+  if (isTagAlone(open)) {
+    deleteStart = open.paragraph.startIndex;
+    contentStart = open.paragraph.endIndex;
+  }
+  if (isTagAlone(close)) {
+    contentEnd = close.paragraph.startIndex;
+    if (!isLastParagraph(close.paragraph, segmentEndIndex)) {
+      deleteEnd = close.paragraph.endIndex;
+    }
+  }
+
+  const fragments = collectFragments(paragraphs, contentStart, contentEnd);
+  const requests: DocsRequest[] = [
+    { deleteContentRange: { range: { startIndex: deleteStart, endIndex: deleteEnd } } }
+  ];
+
+  let text = '';
+  const styleRequests: DocsRequest[] = [];
+  const bullets: BulletRange[] = [];
+  for (const item of items) {
+    const rendered = renderFragments(fragments, item, deleteStart + text.length, lists);
+    text += rendered.text;
+    styleRequests.push(...rendered.styleRequests);
+    bullets.push(...rendered.bullets);
+  }
+
+  if (text) {
+    requests.push({ insertText: { location: { index: deleteStart }, text } });
+    requests.push(...styleRequests, ...bulletRequests(bullets));
+  }
+
+  return requests;
+}
+
+async function expandTableRowBlock(
+  documentId: string,
+  doc: GoogleDocument,
+  segmentId: string | undefined,
+  open: TagMatch,
+  close: TagMatch,
+  items: ListItemValues[],
+  accessToken: string
+): Promise<void> {
+  const { tableStartIndex, rowIndex, row: templateRow } = open.paragraph.cell!;
+  const rowLocation = {
+    tableCellLocation: {
+      tableStartLocation: { index: tableStartIndex },
+      rowIndex,
+      columnIndex: 0
+    }
+  };
+
+  if (items.length === 0) {
+    await batchUpdateDocument(documentId, inSegment([{ deleteTableRow: rowLocation }], segmentId), accessToken);
+    return;
+  }
+
+  // Capture the template row before it changes; tags (and lines holding only a tag) are left out
+  const exclude: Array<[number, number]> = [open, close].map(tag =>
+    isTagAlone(tag)
+      ? [tag.paragraph.startIndex, tag.paragraph.endIndex]
+      : [tag.startIndex, tag.endIndex]
+  );
+  const cellFragments = (templateRow.tableCells || []).map(cell =>
+    collectFragments(
+      collectParagraphs(cell.content),
+      cell.content?.[0]?.startIndex ?? 0,
+      (cell.endIndex ?? 0) - 1,
+      exclude
+    )
+  );
+
+  // New rows are empty, so they are inserted first and filled after a refetch
+  const insertRequests: DocsRequest[] = items.slice(1).map(() => ({
+    insertTableRow: { ...rowLocation, insertBelow: true }
+  }));
+  await batchUpdateDocument(documentId, inSegment(insertRequests, segmentId), accessToken);
+
+  const updatedDoc = items.length > 1 ? await fetchDocumentJson(documentId, accessToken) : doc;
+  const table = findTable(getSegmentContent(updatedDoc, segmentId), tableStartIndex);
+  if (!table) {
+    throw new Error('Failed to locate the repeated table after inserting rows');
+  }
+
+  await batchUpdateDocument(
+    documentId,
+    inSegment(fillTableRowsRequests(table, tableStartIndex, rowIndex, templateRow, cellFragments, items, updatedDoc.lists), segmentId),
+    accessToken
+  );
+}
+
+/**
+ * Range removed together with a tag: the whole paragraph when the tag stands alone
+ * (unless its newline cannot be deleted), otherwise just the tag text
+ */
+function tagRemovalRange(tag: TagMatch, segmentEndIndex: number): [number, number] {
+  if (isTagAlone(tag) && !isLastParagraph(tag.paragraph, segmentEndIndex)) {
+    return [tag.paragraph.startIndex, tag.paragraph.endIndex];
+  }
+  return [tag.startIndex, tag.endIndex];
+}
+
+/**
+ * Resolve {{#if flag}} ... {{else}} ... {{/if}} blocks in a copied document.
+ * The tags are always removed; the branch that does not apply is deleted with deleteContentRange.
+ */
+export async function removeConditionalSections(
+  documentId: string,
+  values: VariableValues,
+  accessToken: string
+): Promise<void> {
+  try {
+    const doc = await fetchDocumentJson(documentId, accessToken);
+    const requests: DocsRequest[] = [];
+
+    // Each segment has its own indices, so its blocks are resolved on their own
+    for (const segment of getDocumentSegments(doc)) {
+      const segmentEndIndex = getSegmentEndIndex(segment.content);
+      const paragraphs = collectParagraphs(segment.content);
+
+      const tags = [
+        ...findTags(paragraphs, IF_OPEN_REGEX).map(tag => ({ tag, kind: 'open' as const })),
+        ...findTags(paragraphs, ELSE_REGEX).map(tag => ({ tag, kind: 'else' as const })),
+        ...findTags(paragraphs, IF_CLOSE_REGEX).map(tag => ({ tag, kind: 'close' as const }))
+      ].sort((a, b) => a.tag.startIndex - b.tag.startIndex);
+
+      const ranges: Array<[number, number]> = [];
+      const stack: Array<{ open: TagMatch; otherwise?: TagMatch }> = [];
+
+      for (const { tag, kind } of tags) {
+        if (kind === 'open') {
+          stack.push({ open: tag });
+          continue;
+        }
+        if (kind === 'else') {
+          const current = stack[stack.length - 1];
+          if (current && !current.otherwise) {
+            current.otherwise = tag;
+          }
+          continue;
+        }
+
+        const block = stack.pop();
+        if (!block) continue;
+        const { open, otherwise } = block;
+        const close = tag;
+
+        if (!inSameFlow(open, close) || (otherwise && !inSameFlow(open, otherwise))) {
+          throw new Error(
+            `Unsupported conditional section "{{#if ${open.match[1]}}}": ` +
+            'the start and end tags must be in the same text flow'
+          );
+        }
+
+        const openRange = tagRemovalRange(open, segmentEndIndex);
+        const closeRange = tagRemovalRange(close, segmentEndIndex);
+        const elseRange = otherwise ? tagRemovalRange(otherwise, segmentEndIndex) : null;
+
+        if (isTruthyValue(values[open.match[1]])) {
+          ranges.push(openRange);
+          ranges.push(elseRange ? [elseRange[0], closeRange[1]] : closeRange);
+        } else if (elseRange) {
+          ranges.push([openRange[0], elseRange[1]]);
+          ranges.push(closeRange);
+        } else {
+          ranges.push([openRange[0], closeRange[1]]);
+        }
+      }
+
+      // Merge overlapping ranges (nested blocks) and delete from the end so indices stay valid
+      const merged: Array<[number, number]> = [];
+      for (const [start, end] of ranges.sort((a, b) => a[0] - b[0])) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+          last[1] = Math.max(last[1], end);
+        } else {
+          merged.push([start, end]);
+        }
+      }
+
+      requests.push(...inSegment(merged.reverse().map(([startIndex, endIndex]) => ({
+        deleteContentRange: { range: { startIndex, endIndex } }
+      })), segment.segmentId));
+    }
+
+    await batchUpdateDocument(documentId, requests, accessToken);
+  } catch (error) {
+    console.error('Error removing conditional sections:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fill {{name:table}} placeholders from table values. The table row holding the placeholder
+ * is repeated once per value row with insertTableRow; new rows take that row's cell style and
+ * each cell's text style. Rows above it (the header) are left untouched.
+ */
+export async function fillDynamicTables(
+  documentId: string,
+  values: VariableValues,
+  accessToken: string
+): Promise<void> {
+  try {
+    for (let pass = 0; pass < MAX_BLOCK_PASSES; pass++) {
+      const doc = await fetchDocumentJson(documentId, accessToken);
+      const tag = findTags(collectDocumentParagraphs(doc), PLACEHOLDER_REGEX).find(candidate => {
+        const parsed = parsePlaceholder(candidate.match[1]);
+        return candidate.paragraph.cell && parsed?.type === 'table' && Array.isArray(values[parsed.name]);
+      });
+
+      if (!tag) {
+        return;
+      }
+
+      await fillTableFromTag(documentId, doc, tag, values, accessToken);
+    }
+    throw new Error(
+      `Stopped after filling ${MAX_BLOCK_PASSES} dynamic tables; ` +
+      'the template has more {{name:table}} placeholders than can be filled'
+    );
+  } catch (error) {
+    console.error('Error filling dynamic tables:', error);
+    throw error;
+  }
+}
+
+async function fillTableFromTag(
+  documentId: string,
+  doc: GoogleDocument,
+  tag: TagMatch,
+  values: VariableValues,
+  accessToken: string
+): Promise<void> {
+  const parsed = parsePlaceholder(tag.match[1])!;
+  const rows = values[parsed.name] as ListItemValues[];
+  const { segmentId } = tag.paragraph;
+  const { tableStartIndex, rowIndex, row: templateRow } = tag.paragraph.cell!;
+  const table = findTable(getSegmentContent(doc, segmentId), tableStartIndex);
+  if (!table) {
+    throw new Error(`Failed to locate the table of "${tag.match[0]}"`);
+  }
+
+  if (rows.length === 0) {
+    // A table cannot lose its last row, so a single-row table only loses the placeholder
+    await batchUpdateDocument(documentId, inSegment([(table.tableRows || []).length > 1
+      ? { deleteTableRow: { tableCellLocation: { tableStartLocation: { index: tableStartIndex }, rowIndex, columnIndex: 0 } } }
+      : { deleteContentRange: { range: { startIndex: tag.startIndex, endIndex: tag.endIndex } } }
+    ], segmentId), accessToken);
+    return;
+  }
+
+  const cells = templateRow.tableCells || [];
+  const headerTexts = rowIndex > 0
+    ? (table.tableRows?.[rowIndex - 1].tableCells || []).map(cell =>
+        collectParagraphs(cell.content).map(paragraph => paragraph.text).join('')
+      )
+    : [];
+  const columns = getTableColumns(parsed.columns, headerTexts, cells.length);
+
+  // Cells are rendered through the list-item machinery: one {{columnN}} fragment per cell,
+  // styled like the cell's first text run, filled from items keyed columnN
+  const cellFragments: Fragment[][] = cells.map((cell, columnIndex) => {
+    const [paragraph] = collectParagraphs(cell.content);
+    if (!paragraph || columnIndex >= columns.length) return [];
+    const firstRun = paragraph.paragraph.elements?.find(element => element.textRun)?.textRun;
+    return [{ text: `{{column${columnIndex}}}`, textStyle: firstRun?.textStyle, paragraph, atParagraphStart: true }];
+  });
+  const items = rows.map(row =>
+    Object.fromEntries(columns.map((column, columnIndex) => [`column${columnIndex}`, row[column] ?? '']))
+  );
+
+  await batchUpdateDocument(documentId, inSegment(items.slice(1).map(() => ({
+    insertTableRow: {
+      tableCellLocation: { tableStartLocation: { index: tableStartIndex }, rowIndex, columnIndex: 0 },
+      insertBelow: true
+    }
+  })), segmentId), accessToken);
+
+  const updatedDoc = items.length > 1 ? await fetchDocumentJson(documentId, accessToken) : doc;
+  const updatedTable = findTable(getSegmentContent(updatedDoc, segmentId), tableStartIndex);
+  if (!updatedTable) {
+    throw new Error('Failed to locate the dynamic table after inserting rows');
+  }
+
+  await batchUpdateDocument(
+    documentId,
+    inSegment(fillTableRowsRequests(updatedTable, tableStartIndex, rowIndex, templateRow, cellFragments, items, updatedDoc.lists), segmentId),
+    accessToken
+  );
+}
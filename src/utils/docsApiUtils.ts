@@ -0,0 +1,78 @@
+// Low-level Google Docs API calls shared by the document utilities
+
+import type { GoogleDocument, DocsRequest } from '@/types/googleDocs';
+
+/**
+ * Fetch the full JSON structure of a Google Doc
+ */
+export async function fetchDocumentJson(documentId: string, accessToken: string): Promise<GoogleDocument> {
+  const response = await fetch(
+    `https://docs.googleapis.com/v1/documents/${documentId}`,
+    {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch document: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Apply a list of requests to a Google Doc in a single batchUpdate call
+ */
+export async function batchUpdateDocument(
+  documentId: string,
+  requests: DocsRequest[],
+  accessToken: string
+): Promise<void> {
+  if (requests.length === 0) {
+    return;
+  }
+
+  const response = await fetch(
+    `https://docs.googleapis.com/v1/documents/${documentId}:batchUpdate`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        requests
+      })
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to update document: ${response.statusText} - ${errorText}`);
+  }
+}
+
+/**
+ * Current revision ID of a Google Doc (changes with every edit)
+ */
+export async function fetchDocumentRevision(documentId: string, accessToken: string): Promise<string | undefined> {
+  const response = await fetch(
+    `https://docs.googleapis.com/v1/documents/${documentId}?fields=revisionId`,
+    {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch document revision: ${response.statusText}`);
+  }
+
+  const { revisionId } = await response.json();
+  return revisionId;
+}
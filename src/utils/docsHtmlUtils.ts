@@ -0,0 +1,409 @@
+// Render Google Docs document JSON as HTML for previews.
+// All document text is escaped; only http(s), mailto and tel links are kept.
+
+import type {
+  GoogleDimension,
+  GoogleDocument,
+  GoogleOptionalColor,
+  GoogleParagraph,
+  GoogleParagraphElement,
+  GoogleParagraphStyle,
+  GoogleStructuralElement,
+  GoogleTable,
+  GoogleTableCellBorder,
+  GoogleTableCellStyle,
+  GoogleTextRun,
+  GoogleTextStyle
+} from '@/types/googleDocs';
+
+// Named paragraph styles rendered with their own tag
+const HEADING_TAGS: Record<string, string> = {
+  TITLE: 'h1',
+  HEADING_1: 'h1',
+  HEADING_2: 'h2',
+  HEADING_3: 'h3',
+  HEADING_4: 'h4',
+  HEADING_5: 'h5',
+  HEADING_6: 'h6'
+};
+
+// Default sizes of the named styles, since the renderer does not read the document's namedStyles
+const NAMED_STYLE_CSS: Record<string, string> = {
+  TITLE: 'font-size: 26pt; font-weight: normal',
+  SUBTITLE: 'font-size: 15pt; color: #666666',
+  HEADING_1: 'font-size: 20pt; font-weight: normal',
+  HEADING_2: 'font-size: 16pt; font-weight: normal',
+  HEADING_3: 'font-size: 14pt; font-weight: normal; color: #434343',
+  HEADING_4: 'font-size: 12pt; font-weight: normal; color: #666666',
+  HEADING_5: 'font-size: 11pt; font-weight: normal; color: #666666',
+  HEADING_6: 'font-size: 11pt; font-weight: normal; font-style: italic; color: #666666'
+};
+
+const ALIGNMENTS: Record<string, string> = {
+  START: 'left',
+  CENTER: 'center',
+  END: 'right',
+  JUSTIFIED: 'justify'
+};
+
+// Ordered list glyphs and their <ol type>
+const ORDERED_GLYPHS: Record<string, string> = {
+  DECIMAL: '1',
+  ZERO_DECIMAL: '1',
+  ALPHA: 'a',
+  UPPER_ALPHA: 'A',
+  ROMAN: 'i',
+  UPPER_ROMAN: 'I'
+};
+
+const DASH_STYLES: Record<string, string> = {
+  SOLID: 'solid',
+  DOT: 'dotted',
+  DASH: 'dashed'
+};
+
+interface OpenList {
+  listId: string;
+  tag: 'ul' | 'ol';
+}
+
+export interface RenderOptions {
+  // Wraps the rendered HTML of a text run, e.g. to make filled placeholders clickable
+  decorateRun?: (run: GoogleTextRun, html: string) => string;
+}
+
+// Per-render state: the document (for lists, images and footnotes) and the footnotes referenced so far
+interface RenderContext {
+  doc: GoogleDocument;
+  footnoteIds: string[];
+  options: RenderOptions;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a whole document: header, body, footnotes and footer
+ */
+export function renderDocumentHtml(doc: GoogleDocument, options: RenderOptions = {}): string {
+  const context: RenderContext = { doc, footnoteIds: [], options };
+  const style = doc.documentStyle || {};
+  const headerId = (style.useFirstPageHeaderFooter && style.firstPageHeaderId) || style.defaultHeaderId;
+  const footerId = (style.useFirstPageHeaderFooter && style.firstPageFooterId) || style.defaultFooterId;
+
+  let html = '';
+
+  const header = headerId ? doc.headers?.[headerId] : undefined;
+  if (header?.content) {
+    html += `<header style="border-bottom: 1px dashed #ddd; margin-bottom: 12pt; color: #555">${renderContent(header.content, context)}</header>`;
+  }
+
+  html += renderContent(doc.body?.content, context);
+
+  if (context.footnoteIds.length > 0) {
+    html += '<section style="border-top: 1px solid #ddd; margin-top: 24pt; font-size: 9pt"><ol>';
+    // Footnotes can reference further footnotes, so the list may grow while rendering
+    for (let i = 0; i < context.footnoteIds.length; i++) {
+      const footnoteId = context.footnoteIds[i];
+      html += `<li id="footnote-${escapeHtml(footnoteId)}">${renderContent(doc.footnotes?.[footnoteId]?.content, context)}</li>`;
+    }
+    html += '</ol></section>';
+  }
+
+  const footer = footerId ? doc.footers?.[footerId] : undefined;
+  if (footer?.content) {
+    html += `<footer style="border-top: 1px dashed #ddd; margin-top: 12pt; color: #555">${renderContent(footer.content, context)}</footer>`;
+  }
+
+  return html;
+}
+
+function renderContent(content: GoogleStructuralElement[] = [], context: RenderContext): string {
+  let html = '';
+  const lists: OpenList[] = [];
+
+  const closeLists = (depth: number) => {
+    while (lists.length > depth) {
+      html += `</li></${lists.pop()!.tag}>`;
+    }
+  };
+
+  content.forEach((element, index) => {
+    const bullet = element.paragraph?.bullet;
+    if (!bullet) {
+      closeLists(0);
+    }
+
+    if (element.paragraph && bullet) {
+      const level = bullet.nestingLevel ?? 0;
+      const listId = bullet.listId || '';
+      closeLists(level + 1);
+      if (lists.length === level + 1 && lists[level].listId !== listId) {
+        closeLists(level);
+      }
+      if (lists.length === level + 1) {
+        html += '</li>';
+      }
+      while (lists.length < level + 1) {
+        html += openList(context, listId, lists.length);
+        lists.push({ listId, tag: isOrdered(context, listId, lists.length) ? 'ol' : 'ul' });
+      }
+      html += `<li${styleAttribute(paragraphCss(element.paragraph.paragraphStyle, true))}>${renderInline(element.paragraph, context)}`;
+    } else if (element.paragraph) {
+      html += renderParagraph(element.paragraph, context);
+    } else if (element.table) {
+      html += renderTable(element.table, context);
+    } else if (element.tableOfContents) {
+      html += `<nav>${renderContent(element.tableOfContents.content, context)}</nav>`;
+    } else if (element.sectionBreak && index > 0) {
+      // Every segment starts with a section break; later ones separate sections
+      html += '<hr>';
+    }
+  });
+
+  closeLists(0);
+  return html;
+}
+
+function getNestingLevel(context: RenderContext, listId: string, level: number) {
+  return context.doc.lists?.[listId]?.listProperties?.nestingLevels?.[level];
+}
+
+function isOrdered(context: RenderContext, listId: string, level: number): boolean {
+  const glyphType = getNestingLevel(context, listId, level)?.glyphType;
+  return !!glyphType && glyphType in ORDERED_GLYPHS;
+}
+
+function openList(context: RenderContext, listId: string, level: number): string {
+  const nestingLevel = getNestingLevel(context, listId, level);
+  if (!isOrdered(context, listId, level)) {
+    return '<ul>';
+  }
+
+  const type = ORDERED_GLYPHS[nestingLevel!.glyphType!];
+  const start = nestingLevel?.startNumber && nestingLevel.startNumber !== 1 ? ` start="${nestingLevel.startNumber}"` : '';
+  return `<ol type="${type}"${start}>`;
+}
+
+function renderParagraph(paragraph: GoogleParagraph, context: RenderContext): string {
+  const style = paragraph.paragraphStyle || {};
+  const namedStyle = style.namedStyleType || 'NORMAL_TEXT';
+  const tag = HEADING_TAGS[namedStyle] || 'p';
+  const css = [NAMED_STYLE_CSS[namedStyle], ...paragraphCss(style, false)].filter(Boolean) as string[];
+  const id = style.headingId ? ` id="${escapeHtml(style.headingId)}"` : '';
+  const direction = style.direction === 'RIGHT_TO_LEFT' ? ' dir="rtl"' : '';
+
+  const inner = renderInline(paragraph, context);
+  // Empty paragraphs still take up a line in the document
+  return `<${tag}${id}${direction}${styleAttribute(css)}>${inner || '<br>'}</${tag}>`;
+}
+
+function paragraphCss(style: GoogleParagraphStyle = {}, inList: boolean): string[] {
+  const css: string[] = [];
+
+  if (style.alignment && ALIGNMENTS[style.alignment]) {
+    css.push(`text-align: ${ALIGNMENTS[style.alignment]}`);
+  }
+  if (style.lineSpacing) {
+    css.push(`line-height: ${style.lineSpacing / 100 * 1.15}`);
+  }
+  pushDimension(css, 'margin-top', style.spaceAbove);
+  pushDimension(css, 'margin-bottom', style.spaceBelow);
+  // List items are indented by the list itself
+  if (!inList) {
+    pushDimension(css, 'margin-left', style.indentStart);
+  }
+  pushDimension(css, 'margin-right', style.indentEnd);
+  if (style.indentFirstLine?.magnitude !== undefined && !inList) {
+    const firstLine = style.indentFirstLine.magnitude - (style.indentStart?.magnitude ?? 0);
+    if (firstLine !== 0) {
+      css.push(`text-indent: ${firstLine}pt`);
+    }
+  }
+
+  return css;
+}
+
+function renderInline(paragraph: GoogleParagraph, context: RenderContext): string {
+  return (paragraph.elements || []).map(element => renderElement(element, context)).join('');
+}
+
+function renderElement(element: GoogleParagraphElement, context: RenderContext): string {
+  if (element.textRun) {
+    // The paragraph's closing newline is implied by the block element; \u000b is a soft line break
+    const text = (element.textRun.content || '').replace(/\n$/, '');
+    if (!text) return '';
+    const html = renderStyledText(escapeHtml(text).replace(/[\u000b\n]/g, '<br>'), element.textRun.textStyle);
+    return context.options.decorateRun ? context.options.decorateRun(element.textRun, html) : html;
+  }
+
+  if (element.inlineObjectElement) {
+    const objectId = element.inlineObjectElement.inlineObjectId || '';
+    const embedded = context.doc.inlineObjects?.[objectId]?.inlineObjectProperties?.embeddedObject;
+    const uri = embedded?.imageProperties?.contentUri;
+    if (!uri || !isSafeUrl(uri)) return '';
+
+    const css: string[] = ['max-width: 100%'];
+    pushDimension(css, 'width', embedded?.size?.width);
+    pushDimension(css, 'height', embedded?.size?.height);
+    const alt = escapeHtml(embedded?.description || embedded?.title || '');
+    return `<img src="${escapeHtml(uri)}" alt="${alt}"${styleAttribute(css)}>`;
+  }
+
+  if (element.footnoteReference) {
+    const { footnoteId = '', footnoteNumber = '' } = element.footnoteReference;
+    if (!context.footnoteIds.includes(footnoteId)) {
+      context.footnoteIds.push(footnoteId);
+    }
+    return `<sup><a href="#footnote-${escapeHtml(footnoteId)}">${escapeHtml(footnoteNumber)}</a></sup>`;
+  }
+
+  if (element.horizontalRule) {
+    return '<hr>';
+  }
+
+  if (element.pageBreak) {
+    return '<span style="display: block; page-break-before: always; border-top: 1px dashed #ccc; margin: 12pt 0"></span>';
+  }
+
+  return '';
+}
+
+function renderStyledText(html: string, style: GoogleTextStyle = {}): string {
+  let result = html;
+
+  if (style.bold) result = `<strong>${result}</strong>`;
+  if (style.italic) result = `<em>${result}</em>`;
+  if (style.underline && !style.link) result = `<u>${result}</u>`;
+  if (style.strikethrough) result = `<s>${result}</s>`;
+  if (style.baselineOffset === 'SUPERSCRIPT') result = `<sup>${result}</sup>`;
+  if (style.baselineOffset === 'SUBSCRIPT') result = `<sub>${result}</sub>`;
+
+  const css: string[] = [];
+  const color = cssColor(style.foregroundColor);
+  const background = cssColor(style.backgroundColor);
+  if (color) css.push(`color: ${color}`);
+  if (background) css.push(`background-color: ${background}`);
+  pushDimension(css, 'font-size', style.fontSize);
+  if (style.weightedFontFamily?.fontFamily) {
+    css.push(`font-family: '${style.weightedFontFamily.fontFamily.replace(/['"\\;]/g, '')}'`);
+  }
+  if (style.weightedFontFamily?.weight && style.weightedFontFamily.weight !== 400 && !style.bold) {
+    css.push(`font-weight: ${style.weightedFontFamily.weight}`);
+  }
+  if (style.smallCaps) css.push('font-variant: small-caps');
+
+  if (css.length > 0) {
+    result = `<span${styleAttribute(css)}>${result}</span>`;
+  }
+
+  const href = linkHref(style.link);
+  if (href) {
+    result = `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${result}</a>`;
+  }
+
+  return result;
+}
+
+function linkHref(link: GoogleTextStyle['link']): string | null {
+  if (!link) return null;
+  if (link.url) return isSafeUrl(link.url) ? link.url : null;
+  if (link.headingId) return `#${link.headingId}`;
+  return null;
+}
+
+function isSafeUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:', 'mailto:', 'tel:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function renderTable(table: GoogleTable, context: RenderContext): string {
+  let html = '<table style="border-collapse: collapse; width: 100%;">';
+  // Cells covered by a merged cell still appear in the JSON and are skipped
+  const covered = new Set<string>();
+
+  (table.tableRows || []).forEach((row, rowIndex) => {
+    html += '<tr>';
+    (row.tableCells || []).forEach((cell, columnIndex) => {
+      if (covered.has(`${rowIndex}:${columnIndex}`)) return;
+
+      const style = cell.tableCellStyle || {};
+      const rowSpan = style.rowSpan ?? 1;
+      const columnSpan = style.columnSpan ?? 1;
+      for (let r = 0; r < rowSpan; r++) {
+        for (let c = 0; c < columnSpan; c++) {
+          if (r || c) covered.add(`${rowIndex + r}:${columnIndex + c}`);
+        }
+      }
+
+      const spans = (rowSpan > 1 ? ` rowspan="${rowSpan}"` : '') + (columnSpan > 1 ? ` colspan="${columnSpan}"` : '');
+      html += `<td${spans}${styleAttribute(tableCellCss(style))}>${renderContent(cell.content, context)}</td>`;
+    });
+    html += '</tr>';
+  });
+
+  html += '</table>';
+  return html;
+}
+
+function tableCellCss(style: GoogleTableCellStyle): string[] {
+  const css: string[] = [];
+  const background = cssColor(style.backgroundColor);
+  if (background) css.push(`background-color: ${background}`);
+
+  const verticalAlign = { TOP: 'top', MIDDLE: 'middle', BOTTOM: 'bottom' }[style.contentAlignment || ''];
+  if (verticalAlign) css.push(`vertical-align: ${verticalAlign}`);
+
+  const padding = [style.paddingTop, style.paddingRight, style.paddingBottom, style.paddingLeft];
+  css.push(padding.some(side => side?.magnitude !== undefined)
+    ? `padding: ${padding.map(side => `${side?.magnitude ?? 0}pt`).join(' ')}`
+    : 'padding: 5pt');
+
+  const borders: Array<[string, GoogleTableCellBorder | undefined]> = [
+    ['border-top', style.borderTop],
+    ['border-right', style.borderRight],
+    ['border-bottom', style.borderBottom],
+    ['border-left', style.borderLeft]
+  ];
+  for (const [property, border] of borders) {
+    css.push(`${property}: ${cssBorder(border)}`);
+  }
+
+  return css;
+}
+
+function cssBorder(border: GoogleTableCellBorder | undefined): string {
+  if (!border) return '1pt solid #000000';
+  const width = border.width?.magnitude ?? 0;
+  if (width === 0) return 'none';
+  return `${width}pt ${DASH_STYLES[border.dashStyle || 'SOLID'] || 'solid'} ${cssColor(border.color) || '#000000'}`;
+}
+
+/**
+ * Docs omits zero color components, so {} inside rgbColor is black
+ */
+function cssColor(color: GoogleOptionalColor | undefined): string | null {
+  const rgb = color?.color?.rgbColor;
+  if (!rgb) return null;
+  const channel = (value: number | undefined) => Math.round((value ?? 0) * 255);
+  return `rgb(${channel(rgb.red)}, ${channel(rgb.green)}, ${channel(rgb.blue)})`;
+}
+
+function pushDimension(css: string[], property: string, dimension: GoogleDimension | undefined): void {
+  if (dimension?.magnitude !== undefined) {
+    css.push(`${property}: ${dimension.magnitude}${(dimension.unit || 'PT').toLowerCase()}`);
+  }
+}
+
+function styleAttribute(css: string[]): string {
+  return css.length > 0 ? ` style="${escapeHtml(css.join('; '))}"` : '';
+}
@@ -0,0 +1,271 @@
+// Form drafts (the values last typed for each template) and named value presets that can be
+// applied to any template's form. Both live in the browser's localStorage under the signed-in
+// user's email, so people sharing a browser keep separate data; export/import moves them as JSON.
+
+import {
+  isVariableValues,
+  type ListItemValues,
+  type TemplateVariable,
+  type VariableValue,
+  type VariableValues
+} from './googleDocsUtils';
+
+export interface Draft {
+  templateName: string;
+  values: VariableValues;
+  savedAt: string; // ISO timestamp
+}
+
+export interface Preset {
+  name: string; // Unique per user, e.g. "Acme Corp client details"
+  values: VariableValues;
+  updatedAt: string; // ISO timestamp
+}
+
+export interface UserFormData {
+  version: 1;
+  drafts: Record<string, Draft>; // Keyed by template ID
+  presets: Preset[];
+}
+
+const STORAGE_PREFIX = 'docs_generator';
+
+/**
+ * The saved draft of a template, if any
+ */
+export function loadDraft(userEmail: string, templateId: string): Draft | null {
+  return readUserData(userEmail).drafts[templateId] || null;
+}
+
+/**
+ * Store the values typed for a template; a form with nothing entered (blank, or still the
+ * template's defaults, see getDefaultValues) removes its draft and returns null
+ */
+export function saveDraft(
+  userEmail: string,
+  templateId: string,
+  templateName: string,
+  values: VariableValues,
+  defaults: VariableValues = {}
+): Draft | null {
+  const data = readUserData(userEmail);
+  const draft = isBlank(values) || isSameValues(values, defaults)
+    ? null
+    : { templateName, values, savedAt: new Date().toISOString() };
+  if (draft) {
+    data.drafts[templateId] = draft;
+  } else {
+    delete data.drafts[templateId];
+  }
+  writeUserData(userEmail, data);
+  return draft;
+}
+
+export function deleteDraft(userEmail: string, templateId: string): void {
+  const data = readUserData(userEmail);
+  delete data.drafts[templateId];
+  writeUserData(userEmail, data);
+}
+
+/**
+ * The user's presets, sorted by name
+ */
+export function listPresets(userEmail: string): Preset[] {
+  return [...readUserData(userEmail).presets].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Store the filled-in values under a name, replacing a preset of the same name
+ */
+export function savePreset(userEmail: string, name: string, values: VariableValues): Preset {
+  const preset: Preset = {
+    name: name.trim(),
+    values: Object.fromEntries(Object.entries(values).filter(([, value]) => !isBlankValue(value))),
+    updatedAt: new Date().toISOString()
+  };
+  if (!preset.name) {
+    throw new Error('A preset needs a name');
+  }
+
+  const data = readUserData(userEmail);
+  data.presets = [...data.presets.filter(other => other.name !== preset.name), preset];
+  writeUserData(userEmail, data);
+  return preset;
+}
+
+export function deletePreset(userEmail: string, name: string): void {
+  const data = readUserData(userEmail);
+  data.presets = data.presets.filter(preset => preset.name !== name);
+  writeUserData(userEmail, data);
+}
+
+/**
+ * Fill a form's values from a preset. Only variables of this template are taken (calculated
+ * ones are skipped); list items keep just the fields the template's list has.
+ */
+export function applyPreset(variables: TemplateVariable[], values: VariableValues, preset: Preset): VariableValues {
+  const result = { ...values };
+  for (const variable of variables) {
+    const value = preset.values[variable.name];
+    if (value === undefined || variable.expression) {
+      continue;
+    }
+    const isList = variable.type === 'list' || variable.type === 'table';
+    if (isList !== Array.isArray(value)) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      const keys = variable.type === 'table'
+        ? variable.columns || []
+        : (variable.fields || []).filter(field => !field.expression).map(field => field.name);
+      result[variable.name] = value.map(item => Object.fromEntries(keys.map(key => [key, item[key] ?? ''])));
+    } else {
+      result[variable.name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * The value a form field starts with: the template's default, or empty (lists start with one empty item)
+ */
+export function getInitialValue(variable: TemplateVariable): VariableValue {
+  switch (variable.type) {
+    case 'list':
+    case 'table': return [createEmptyItem(variable)];
+    case 'boolean': return variable.defaultValue ?? 'false';
+    default: return variable.defaultValue ?? '';
+  }
+}
+
+export function createEmptyItem(list: TemplateVariable): ListItemValues {
+  const item: ListItemValues = {};
+  if (list.type === 'table') {
+    (list.columns || []).forEach(column => {
+      item[column] = '';
+    });
+    return item;
+  }
+  (list.fields || []).filter(field => !field.expression).forEach(field => {
+    item[field.name] = field.defaultValue ?? '';
+  });
+  return item;
+}
+
+/**
+ * The values a fresh form holds before anything is typed (calculated variables have none)
+ */
+export function getDefaultValues(variables: TemplateVariable[]): VariableValues {
+  return Object.fromEntries(variables
+    .filter(variable => !variable.expression)
+    .map(variable => [variable.name, getInitialValue(variable)]));
+}
+
+/**
+ * All drafts and presets of a user as a JSON document
+ */
+export function exportUserData(userEmail: string): string {
+  return JSON.stringify(readUserData(userEmail), null, 2);
+}
+
+/**
+ * Merge exported JSON into the user's data: presets replace those of the same name, drafts
+ * replace older drafts of the same template. Throws an Error when the JSON is not an export.
+ */
+export function importUserData(userEmail: string, json: string): { drafts: number; presets: number } {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const imported = parseUserData(input);
+  if (!imported) {
+    throw new Error('The file is not a drafts and presets export');
+  }
+
+  const data = readUserData(userEmail);
+  let drafts = 0;
+  for (const [templateId, draft] of Object.entries(imported.drafts)) {
+    const current = data.drafts[templateId];
+    if (!current || current.savedAt < draft.savedAt) {
+      data.drafts[templateId] = draft;
+      drafts++;
+    }
+  }
+  const names = new Set(imported.presets.map(preset => preset.name));
+  data.presets = [...data.presets.filter(preset => !names.has(preset.name)), ...imported.presets];
+  writeUserData(userEmail, data);
+
+  return { drafts, presets: imported.presets.length };
+}
+
+function readUserData(userEmail: string): UserFormData {
+  try {
+    const stored = localStorage.getItem(getStorageKey(userEmail));
+    const data = stored ? parseUserData(JSON.parse(stored)) : null;
+    return data || { version: 1, drafts: {}, presets: [] };
+  } catch (error) {
+    console.error('Error reading saved drafts and presets:', error);
+    return { version: 1, drafts: {}, presets: [] };
+  }
+}
+
+function writeUserData(userEmail: string, data: UserFormData): void {
+  try {
+    localStorage.setItem(getStorageKey(userEmail), JSON.stringify(data));
+  } catch (error) {
+    // Storage full or disabled (private browsing)
+    console.error('Error saving drafts and presets:', error);
+    throw error;
+  }
+}
+
+function getStorageKey(userEmail: string): string {
+  return `${STORAGE_PREFIX}:${userEmail.toLowerCase()}:form_data`;
+}
+
+function parseUserData(input: unknown): UserFormData | null {
+  if (!isObject(input) || input.version !== 1 || !isObject(input.drafts) || !Array.isArray(input.presets)) {
+    return null;
+  }
+
+  const drafts: Record<string, Draft> = {};
+  for (const [templateId, draft] of Object.entries(input.drafts)) {
+    if (!isObject(draft) || typeof draft.templateName !== 'string' || typeof draft.savedAt !== 'string' || !isVariableValues(draft.values)) {
+      return null;
+    }
+    drafts[templateId] = { templateName: draft.templateName, values: draft.values, savedAt: draft.savedAt };
+  }
+
+  const presets: Preset[] = [];
+  for (const preset of input.presets) {
+    if (!isObject(preset) || typeof preset.name !== 'string' || !preset.name || typeof preset.updatedAt !== 'string' || !isVariableValues(preset.values)) {
+      return null;
+    }
+    presets.push({ name: preset.name, values: preset.values, updatedAt: preset.updatedAt });
+  }
+
+  return { version: 1, drafts, presets };
+}
+
+function isSameValues(values: VariableValues, other: VariableValues): boolean {
+  const names = Object.keys(values);
+  return names.length === Object.keys(other).length &&
+    names.every(name => JSON.stringify(values[name]) === JSON.stringify(other[name]));
+}
+
+function isBlank(values: VariableValues): boolean {
+  return Object.values(values).every(isBlankValue);
+}
+
+// Empty text, an unchecked box, or list rows with nothing typed in
+function isBlankValue(value: VariableValues[string]): boolean {
+  return Array.isArray(value)
+    ? value.every(item => Object.values(item).every(field => !field.trim()))
+    : !value.trim() || value === 'false';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,48 @@
+// Export formats supported by the Drive files.export endpoint for Google Docs
+
+export const EXPORT_FORMATS = {
+  pdf: { label: 'PDF', mimeType: 'application/pdf', extension: 'pdf' },
+  docx: { label: 'Word (.docx)', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx' },
+  odt: { label: 'OpenDocument (.odt)', mimeType: 'application/vnd.oasis.opendocument.text', extension: 'odt' },
+  rtf: { label: 'Rich Text (.rtf)', mimeType: 'application/rtf', extension: 'rtf' },
+  txt: { label: 'Plain Text (.txt)', mimeType: 'text/plain', extension: 'txt' },
+  epub: { label: 'EPUB', mimeType: 'application/epub+zip', extension: 'epub' },
+  html: { label: 'Web Page (.zip)', mimeType: 'application/zip', extension: 'zip' }
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+/**
+ * Build a download filename from a document title (characters invalid in filenames are replaced)
+ */
+export function getExportFilename(title: string, format: ExportFormat): string {
+  const safeTitle = title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').trim() || 'document';
+  return `${safeTitle}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Content-Disposition header value with an ASCII fallback and the UTF-8 filename (RFC 6266)
+ */
+export function getContentDisposition(filename: string): string {
+  const asciiFallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, "'");
+  return `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Read the filename back from a Content-Disposition header (prefers the UTF-8 form)
+ */
+export function parseContentDispositionFilename(header: string | null): string | null {
+  if (!header) return null;
+
+  const encoded = header.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) {
+    return decodeURIComponent(encoded[1]);
+  }
+
+  const plain = header.match(/filename="([^"]+)"/i);
+  return plain ? plain[1] : null;
+}
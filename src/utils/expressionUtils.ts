@@ -0,0 +1,349 @@
+// Safe expression engine for computed placeholders: {{total = subtotal * 1.1}}, {{end = start + 30d}}
+// Expressions are parsed by hand and never passed to eval or Function.
+
+import type { ListItemValues, VariableValue } from './googleDocsUtils';
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'duration'; amount: number; unit: DurationUnit }
+  | { kind: 'reference'; name: string }
+  | { kind: 'call'; name: string; args: Node[] }
+  | { kind: 'negate'; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node };
+
+type DurationUnit = 'd' | 'w' | 'm' | 'y';
+
+type Value =
+  | { kind: 'number'; value: number }
+  | { kind: 'date'; value: Date }
+  | { kind: 'duration'; days: number; months: number }
+  | { kind: 'list'; values: number[] };
+
+const TOKEN_REGEX = /\s*(?:(\d+(?:\.\d+)?)([dwmy])?\b|([A-Za-z_][\w.]*)|([-+*/%(),]))/y;
+
+const AGGREGATES = ['sum', 'avg', 'count', 'min', 'max'];
+
+/**
+ * Parse an expression, throwing an Error that describes the first syntax problem
+ */
+export function parseExpression(expression: string): Node {
+  const tokens: string[] = [];
+  let position = 0;
+  while (position < expression.length) {
+    if (!expression.slice(position).trim()) break;
+    TOKEN_REGEX.lastIndex = position;
+    const match = TOKEN_REGEX.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected character "${expression.slice(position).trim()[0]}" in "${expression}"`);
+    }
+    tokens.push(match[0].trim());
+    position = TOKEN_REGEX.lastIndex;
+  }
+
+  let index = 0;
+  const peek = () => tokens[index];
+  const expect = (token: string) => {
+    if (tokens[index] !== token) {
+      throw new Error(`Expected "${token}" in "${expression}"`);
+    }
+    index++;
+  };
+
+  const parseSum = (): Node => {
+    let node = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const operator = tokens[index++];
+      node = { kind: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): Node => {
+    let node = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = tokens[index++];
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): Node => {
+    if (peek() === '-') {
+      index++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    if (peek() === '+') {
+      index++;
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    if (token === undefined) {
+      throw new Error(`Unexpected end of "${expression}"`);
+    }
+    if (token === '(') {
+      const node = parseSum();
+      expect(')');
+      return node;
+    }
+
+    const numberMatch = token.match(/^(\d+(?:\.\d+)?)([dwmy])?$/);
+    if (numberMatch) {
+      return numberMatch[2]
+        ? { kind: 'duration', amount: Number(numberMatch[1]), unit: numberMatch[2] as DurationUnit }
+        : { kind: 'number', value: Number(numberMatch[1]) };
+    }
+
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() !== '(') {
+        return { kind: 'reference', name: token };
+      }
+      index++;
+      const args: Node[] = [];
+      while (peek() !== ')') {
+        args.push(parseSum());
+        if (peek() !== ',') break;
+        index++;
+      }
+      expect(')');
+      return { kind: 'call', name: token.toLowerCase(), args };
+    }
+
+    throw new Error(`Unexpected "${token}" in "${expression}"`);
+  };
+
+  const root = parseSum();
+  if (index < tokens.length) {
+    throw new Error(`Unexpected "${tokens[index]}" in "${expression}"`);
+  }
+  return root;
+}
+
+/**
+ * Names of the variables an expression reads (the list name for list.field references)
+ */
+export function getExpressionReferences(expression: string): string[] {
+  const names = new Set<string>();
+  const visit = (node: Node) => {
+    switch (node.kind) {
+      case 'reference': names.add(node.name.split('.')[0]); break;
+      case 'call': node.args.forEach(visit); break;
+      case 'negate': visit(node.operand); break;
+      case 'binary': visit(node.left); visit(node.right); break;
+    }
+  };
+
+  try {
+    visit(parseExpression(expression));
+  } catch {
+    // Syntax errors have no usable references
+  }
+  return [...names];
+}
+
+/**
+ * Evaluate an expression over variable values. Numbers, ISO dates (yyyy-MM-dd) and durations
+ * (30d, 2w, 3m, 1y) are supported, plus round/floor/ceil/abs and sum/avg/count/min/max over
+ * list columns (sum(items.price)) or a list's items (count(items)). Returns undefined when the expression is invalid or an input
+ * is missing, so the placeholder stays unresolved.
+ */
+export function evaluateExpression(
+  expression: string,
+  values: Record<string, VariableValue | undefined>
+): string | undefined {
+  try {
+    return formatResult(evaluate(parseExpression(expression), values));
+  } catch {
+    // Runs on every keystroke in the form, so failures are not logged; parseExpression reports syntax errors
+    return undefined;
+  }
+}
+
+function evaluate(node: Node, values: Record<string, VariableValue | undefined>): Value {
+  switch (node.kind) {
+    case 'number':
+      return { kind: 'number', value: node.value };
+    case 'duration':
+      return {
+        kind: 'duration',
+        days: node.unit === 'd' ? node.amount : node.unit === 'w' ? node.amount * 7 : 0,
+        months: node.unit === 'm' ? node.amount : node.unit === 'y' ? node.amount * 12 : 0
+      };
+    case 'reference':
+      return resolveReference(node.name, values);
+    case 'negate': {
+      const operand = evaluate(node.operand, values);
+      if (operand.kind === 'number') return { kind: 'number', value: -operand.value };
+      if (operand.kind === 'duration') return { kind: 'duration', days: -operand.days, months: -operand.months };
+      throw new Error('Only numbers and durations can be negated');
+    }
+    case 'binary':
+      return applyOperator(node.operator, evaluate(node.left, values), evaluate(node.right, values));
+    case 'call':
+      return callFunction(node.name, node.args.map(arg =>
+        AGGREGATES.includes(node.name) && arg.kind === 'reference'
+          ? resolveItems(arg.name, values) ?? evaluate(arg, values)
+          : evaluate(arg, values)
+      ));
+  }
+}
+
+function resolveReference(name: string, values: Record<string, VariableValue | undefined>): Value {
+  const [listName, field] = name.split('.');
+  const value = values[listName];
+
+  if (field !== undefined) {
+    if (!Array.isArray(value)) {
+      throw new Error(`No usable value for "${name}"`);
+    }
+    return {
+      kind: 'list',
+      values: value.map((item: ListItemValues) => parseNumber(item[field])).filter((n): n is number => n !== null)
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return { kind: 'number', value: value.length };
+  }
+
+  const trimmed = (value || '').trim();
+  const dateMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateMatch) {
+    return { kind: 'date', value: new Date(Date.UTC(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]))) };
+  }
+
+  const number = parseNumber(trimmed);
+  if (number === null) {
+    throw new Error(`No usable value for "${name}"`);
+  }
+  return { kind: 'number', value: number };
+}
+
+/**
+ * Inside an aggregate a bare list reference stands for its items, so count(items) counts them.
+ * An item's value is its only field as a number (NaN otherwise, which sum/avg/min/max reject).
+ */
+function resolveItems(name: string, values: Record<string, VariableValue | undefined>): Value | undefined {
+  const value = values[name];
+  if (name.includes('.') || !Array.isArray(value)) {
+    return undefined;
+  }
+  return {
+    kind: 'list',
+    values: value.map((item: ListItemValues) => {
+      const fields = Object.values(item);
+      return (fields.length === 1 ? parseNumber(fields[0]) : null) ?? NaN;
+    })
+  };
+}
+
+function applyOperator(operator: string, left: Value, right: Value): Value {
+  if (left.kind === 'number' && right.kind === 'number') {
+    switch (operator) {
+      case '+': return { kind: 'number', value: left.value + right.value };
+      case '-': return { kind: 'number', value: left.value - right.value };
+      case '*': return { kind: 'number', value: left.value * right.value };
+      case '/':
+        if (right.value === 0) throw new Error('Division by zero');
+        return { kind: 'number', value: left.value / right.value };
+      case '%':
+        if (right.value === 0) throw new Error('Division by zero');
+        return { kind: 'number', value: left.value % right.value };
+    }
+  }
+
+  // A plain number next to a date counts days
+  const asDuration = (value: Value): Value =>
+    value.kind === 'number' ? { kind: 'duration', days: value.value, months: 0 } : value;
+
+  if (operator === '+' || operator === '-') {
+    const sign = operator === '+' ? 1 : -1;
+    const l = asDuration(left);
+    const r = asDuration(right);
+
+    if (l.kind === 'date' && r.kind === 'duration') return { kind: 'date', value: shiftDate(l.value, r, sign) };
+    if (operator === '+' && l.kind === 'duration' && r.kind === 'date') return { kind: 'date', value: shiftDate(r.value, l, 1) };
+    if (operator === '-' && left.kind === 'date' && right.kind === 'date') {
+      return { kind: 'number', value: Math.round((left.value.getTime() - right.value.getTime()) / 86400000) };
+    }
+    if (l.kind === 'duration' && r.kind === 'duration') {
+      return { kind: 'duration', days: l.days + sign * r.days, months: l.months + sign * r.months };
+    }
+  }
+
+  throw new Error(`Cannot apply "${operator}" to ${left.kind} and ${right.kind}`);
+}
+
+function callFunction(name: string, args: Value[]): Value {
+  if (AGGREGATES.includes(name)) {
+    const numbers = args.flatMap(arg => {
+      if (arg.kind === 'list') return arg.values;
+      if (arg.kind === 'number') return [arg.value];
+      throw new Error(`${name}() expects numbers`);
+    });
+    if (name !== 'count' && numbers.some(Number.isNaN)) {
+      throw new Error(`${name}() needs a field of the list, e.g. ${name}(items.price)`);
+    }
+    switch (name) {
+      case 'sum': return { kind: 'number', value: numbers.reduce((total, n) => total + n, 0) };
+      case 'count': return { kind: 'number', value: numbers.length };
+      case 'avg': return { kind: 'number', value: numbers.length ? numbers.reduce((total, n) => total + n, 0) / numbers.length : 0 };
+      case 'min': return { kind: 'number', value: numbers.length ? Math.min(...numbers) : 0 };
+      case 'max': return { kind: 'number', value: numbers.length ? Math.max(...numbers) : 0 };
+    }
+  }
+
+  const [value, digits] = args;
+  if (value?.kind !== 'number') {
+    throw new Error(`${name}() expects a number`);
+  }
+  switch (name) {
+    case 'round': {
+      const factor = 10 ** (digits?.kind === 'number' ? digits.value : 0);
+      return { kind: 'number', value: Math.round(value.value * factor) / factor };
+    }
+    case 'floor': return { kind: 'number', value: Math.floor(value.value) };
+    case 'ceil': return { kind: 'number', value: Math.ceil(value.value) };
+    case 'abs': return { kind: 'number', value: Math.abs(value.value) };
+  }
+
+  throw new Error(`Unknown function "${name}"`);
+}
+
+function shiftDate(date: Date, duration: { days: number; months: number }, sign: number): Date {
+  const shifted = new Date(date.getTime());
+  if (duration.months) {
+    // Clamp to the last day of the target month (Jan 31 + 1m = Feb 28)
+    const day = shifted.getUTCDate();
+    shifted.setUTCDate(1);
+    shifted.setUTCMonth(shifted.getUTCMonth() + sign * duration.months);
+    const lastDay = new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, 0)).getUTCDate();
+    shifted.setUTCDate(Math.min(day, lastDay));
+  }
+  shifted.setUTCDate(shifted.getUTCDate() + sign * duration.days);
+  return shifted;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  // Tolerate thousands separators and currency symbols typed into number fields
+  const normalized = (value || '').trim().replace(/[,\s$€£¥]/g, '');
+  if (normalized === '') return null;
+  const number = Number(normalized);
+  return isNaN(number) ? null : number;
+}
+
+function formatResult(result: Value): string {
+  switch (result.kind) {
+    case 'number':
+      if (!isFinite(result.value)) throw new Error('Result is not a finite number');
+      // Drop floating point noise such as 110.00000000000001
+      return String(Math.round(result.value * 1e10) / 1e10);
+    case 'date':
+      return result.value.toISOString().slice(0, 10);
+    default:
+      throw new Error(`An expression cannot produce a ${result.kind}`);
+  }
+}
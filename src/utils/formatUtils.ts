@@ -0,0 +1,232 @@
+// Value formatting filters for placeholders: {{due_date|date:"MMMM d, yyyy"}}, {{amount|currency:USD}}
+
+// Locale used when a filter does not name one, so previews and generated documents match
+export const DEFAULT_LOCALE = 'en-US';
+
+export interface PlaceholderFilter {
+  name: string;
+  args: string[];
+}
+
+type FilterFunction = (value: string, args: string[]) => string | null;
+
+/**
+ * Built-in filters. Each returns null when the value cannot be formatted,
+ * in which case the value is inserted unchanged.
+ */
+const FILTERS: Record<string, FilterFunction> = {
+  // date[:pattern[:locale]]
+  date: (value, [pattern, locale = DEFAULT_LOCALE]) => formatDate(value, pattern, locale),
+  // currency[:code[:locale]]
+  currency: (value, [currency = 'USD', locale = DEFAULT_LOCALE]) => {
+    const amount = parseNumber(value);
+    if (amount === null) return null;
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency: currency.toUpperCase() }).format(amount);
+    } catch {
+      return null;
+    }
+  },
+  // number[:decimals[:locale]]
+  number: (value, [decimals, locale = DEFAULT_LOCALE]) => {
+    const amount = parseNumber(value);
+    if (amount === null) return null;
+    const digits = decimals === undefined || decimals === '' ? undefined : Math.min(Math.max(Number(decimals) || 0, 0), 20);
+    return new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(amount);
+  },
+  words: (value) => {
+    const amount = parseNumber(value);
+    return amount === null ? null : numberToWords(amount);
+  },
+  upper: (value, [locale = DEFAULT_LOCALE]) => value.toLocaleUpperCase(locale),
+  lower: (value, [locale = DEFAULT_LOCALE]) => value.toLocaleLowerCase(locale),
+  title: (value, [locale = DEFAULT_LOCALE]) =>
+    value.toLocaleLowerCase(locale).replace(/(^|\s)(\S)/g, (_, space: string, letter: string) => space + letter.toLocaleUpperCase(locale)),
+  trim: (value) => value.trim()
+};
+
+// Input type implied by a filter when the placeholder does not declare one
+export const FILTER_INPUT_TYPES: Record<string, 'date' | 'currency' | 'number'> = {
+  date: 'date',
+  currency: 'currency',
+  number: 'number',
+  words: 'number'
+};
+
+export function isKnownFilter(name: string): boolean {
+  return name in FILTERS;
+}
+
+/**
+ * Parse the filter chain of a placeholder, e.g. `date:"MMMM d, yyyy"|upper`.
+ * Arguments are separated by colons and may be wrapped in single or double quotes.
+ */
+export function parseFilters(segments: string[]): PlaceholderFilter[] {
+  return segments
+    .map(segment => {
+      const [name = '', ...args] = splitOutside(segment, ':').map(part => unquote(part.trim()));
+      return { name: name.toLowerCase(), args };
+    })
+    .filter(filter => filter.name !== '');
+}
+
+/**
+ * Run a value through a filter chain. Unknown filters and values a filter
+ * cannot handle pass through unchanged.
+ */
+export function applyFilters(value: string, filters: PlaceholderFilter[] = []): string {
+  return filters.reduce((current, filter) => {
+    const apply = FILTERS[filter.name];
+    return apply ? apply(current, filter.args) ?? current : current;
+  }, value);
+}
+
+/**
+ * Split on a separator that is not inside quotes or parentheses
+ */
+export function splitOutside(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(depth - 1, 0);
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+function unquote(text: string): string {
+  const match = text.match(/^(["'])(.*)\1$/);
+  return match ? match[2] : text;
+}
+
+function parseNumber(value: string): number | null {
+  const normalized = value.trim().replace(/[,\s]/g, '');
+  if (normalized === '') return null;
+  const amount = Number(normalized);
+  return isNaN(amount) ? null : amount;
+}
+
+/**
+ * Format a date with a pattern of yyyy, yy, MMMM, MMM, MM, M, dd, d, EEEE, EEE
+ * and 'quoted' literal text. Without a pattern the locale's long date style is used.
+ */
+function formatDate(value: string, pattern: string | undefined, locale: string): string | null {
+  const date = parseDate(value);
+  if (!date) return null;
+
+  try {
+    if (!pattern) {
+      return new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'UTC' }).format(date);
+    }
+
+    const part = (options: Intl.DateTimeFormatOptions) =>
+      new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(date);
+    const year = String(date.getUTCFullYear());
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    return pattern.replace(/'([^']*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE/g, (token, literal?: string) => {
+      if (literal !== undefined) return literal;
+      switch (token) {
+        case 'yyyy': return year;
+        case 'yy': return year.slice(-2);
+        case 'MMMM': return part({ month: 'long' });
+        case 'MMM': return part({ month: 'short' });
+        case 'MM': return String(month).padStart(2, '0');
+        case 'M': return String(month);
+        case 'dd': return String(day).padStart(2, '0');
+        case 'd': return String(day);
+        case 'EEEE': return part({ weekday: 'long' });
+        case 'EEE': return part({ weekday: 'short' });
+        default: return token;
+      }
+    });
+  } catch {
+    // Invalid locale
+    return null;
+  }
+}
+
+/**
+ * Parse a date as a calendar day in UTC, so "2026-10-19" never shifts to the 18th
+ */
+function parseDate(value: string): Date | null {
+  const trimmed = value.trim();
+  const isoMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoMatch) {
+    return new Date(Date.UTC(Number(isoMatch[1]), Number(isoMatch[2]) - 1, Number(isoMatch[3])));
+  }
+
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return null;
+  return new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+}
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+/**
+ * Spell out a number in English, e.g. 1250.5 -> "one thousand two hundred fifty and 50/100"
+ */
+function numberToWords(amount: number): string | null {
+  // Rounded to cents first so that e.g. 1.999 carries into "two"
+  const totalCents = Math.round(Math.abs(amount) * 100);
+  const whole = Math.floor(totalCents / 100);
+  if (whole >= 1000 ** SCALES.length) return null;
+
+  const cents = totalCents % 100;
+  const words: string[] = [];
+
+  if (whole === 0) {
+    words.push(ONES[0]);
+  }
+  let remaining = whole;
+  for (let scale = 0; remaining > 0; scale++) {
+    const group = remaining % 1000;
+    if (group > 0) {
+      words.unshift(...groupToWords(group), ...(SCALES[scale] ? [SCALES[scale]] : []));
+    }
+    remaining = Math.floor(remaining / 1000);
+  }
+
+  const result = (amount < 0 && totalCents > 0 ? 'minus ' : '') + words.join(' ');
+  return cents > 0 ? `${result} and ${String(cents).padStart(2, '0')}/100` : result;
+}
+
+function groupToWords(group: number): string[] {
+  const words: string[] = [];
+  const hundreds = Math.floor(group / 100);
+  const rest = group % 100;
+
+  if (hundreds > 0) {
+    words.push(ONES[hundreds], 'hundred');
+  }
+  if (rest >= 20) {
+    words.push(rest % 10 ? `${TENS[Math.floor(rest / 10)]}-${ONES[rest % 10]}` : TENS[Math.floor(rest / 10)]);
+  } else if (rest > 0) {
+    words.push(ONES[rest]);
+  }
+
+  return words;
+}
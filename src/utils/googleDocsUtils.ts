@@ -1,45 +1,189 @@
 // Utility functions for working with Google Docs API
+import { applyFilters, parseFilters, splitOutside, FILTER_INPUT_TYPES, type PlaceholderFilter } from './formatUtils';
+import { parseImageSize, type ImageSize } from './imageUtils';
+import { evaluateExpression, getExpressionReferences } from './expressionUtils';
+import type { GoogleDocument, GoogleStructuralElement, GoogleTableCell } from '@/types/googleDocs';
 
-// Google Docs API type definitions
-interface GoogleDocument {
-  body: {
-    content: Array<{
-      paragraph?: {
-        elements?: Array<{
-          textRun?: {
-            content?: string;
-          };
-        }>;
-      };
-      table?: {
-        tableRows?: Array<{
-          tableCells?: Array<{
-            content?: Array<{
-              paragraph?: {
-                elements?: Array<{
-                  textRun?: {
-                    content?: string;
-                  };
-                }>;
-              };
-            }>;
-          }>;
-        }>;
-      };
-    }>;
-  };
-}
+// Types that can follow the colon in a placeholder: {{name:type}}
+export const VARIABLE_TYPES = [
+  'text',
+  'textarea',
+  'number',
+  'currency',
+  'date',
+  'email',
+  'phone',
+  'url',
+  'select',
+  'boolean',
+  'image',
+  'table'
+] as const;
+
+export type VariableType = typeof VARIABLE_TYPES[number] | 'list';
 
 export interface TemplateVariable {
   name: string;
   placeholder: string; // The full {{variable_name}} text
-  type?: 'text' | 'number' | 'date' | 'email';
+  type?: VariableType;
+  options?: string[]; // Choices of a 'select' variable: {{size:select(S|M|L)}}
+  defaultValue?: string; // {{company:text=Acme}}
+  optional?: boolean; // {{middle_name?}} may be left empty
+  expression?: string; // {{total = subtotal * 1.1}} is computed from other values, not entered
+  columns?: string[]; // Column headings of a 'table' variable: {{pricing:table(Item|Qty|Price)}} or the table's header row
+  fields?: TemplateVariable[]; // Item fields of a 'list' variable ({{#each name}} ... {{/each}})
+  // Set from the template's form schema (see templateSchemaUtils)
+  label?: string;
+  help?: string;
+  section?: string;
+  pattern?: string; // Regular expression the value must match
+  patternMessage?: string;
+}
+
+// A single placeholder, parsed from the text between the braces
+export type ParsedPlaceholder = Omit<TemplateVariable, 'placeholder' | 'fields' | 'label' | 'help' | 'section' | 'pattern' | 'patternMessage'> & {
+  filters?: PlaceholderFilter[]; // {{due_date|date:"MMMM d, yyyy"}}
+  imageSize?: ImageSize; // {{logo:image(120x40)}}
+};
+
+// Placeholder properties that describe the form field (filters and sizes belong to each occurrence)
+const VARIABLE_FIELDS: Array<keyof ParsedPlaceholder & keyof TemplateVariable> = [
+  'type',
+  'options',
+  'defaultValue',
+  'optional',
+  'expression',
+  'columns'
+];
+
+// Values for one element of a list variable, keyed by field name
+export type ListItemValues = Record<string, string>;
+
+export type VariableValue = string | ListItemValues[];
+
+export type VariableValues = Record<string, VariableValue>;
+
+// Any {{...}} occurrence; the captured group is parsed with parsePlaceholder
+export const PLACEHOLDER_REGEX = /\{\{([^}]+)\}\}/;
+
+// Repeating section tags: {{#each items}} ... {{/each}}
+export const EACH_OPEN_REGEX = /\{\{\s*#each\s+([^\s}]+)\s*\}\}/;
+export const EACH_CLOSE_REGEX = /\{\{\s*\/each\s*\}\}/;
+
+// Conditional section tags: {{#if flag}} ... {{else}} ... {{/if}}
+export const IF_OPEN_REGEX = /\{\{\s*#if\s+([^\s}]+)\s*\}\}/;
+export const ELSE_REGEX = /\{\{\s*else\s*\}\}/;
+export const IF_CLOSE_REGEX = /\{\{\s*\/if\s*\}\}/;
+
+/**
+ * Parse the inside of a placeholder:
+ *   name[?][:type[(option|option)]][=default | = expression][|filter[:arg]...]
+ * e.g. "client", "notes?:textarea", "size:select(S|M|L)=M", "company=Acme", "due|date:\"MMMM d, yyyy\"",
+ * "logo:image(120x40)" (size hint in points), "total = subtotal * 1.1" (computed).
+ * A default follows "=" directly; " = " with spaces on both sides starts an expression.
+ * Returns null for block tags ({{#each}}, {{/if}}, {{else}}, ...). Unknown types fall back to text,
+ * or to the input type a date/currency/number filter implies.
+ */
+export function parsePlaceholder(content: string): ParsedPlaceholder | null {
+  const [head, ...filterSegments] = splitOutside(content, '|');
+  const trimmed = head.trim();
+  if (/^[#/]/.test(trimmed) || trimmed === 'else') {
+    return null;
+  }
+  
+  const match = trimmed.match(/^([^:?=\s]+)(?:\s*(\?))?(?:\s*:\s*([a-zA-Z]+)(?:\s*\(([^)]*)\))?)?(?:\s+=\s+(.+)|\s*=(.*))?$/);
+  if (!match) {
+    return null;
+  }
+  
+  const [, name, optionalMarker, rawType, rawOptions, rawExpression, rawDefault] = match;
+  const type = rawType?.toLowerCase();
+  const filters = parseFilters(filterSegments);
+  const parsed: ParsedPlaceholder = {
+    name,
+    type: (VARIABLE_TYPES as readonly string[]).includes(type)
+      ? type as VariableType
+      : (!rawType && FILTER_INPUT_TYPES[filters[0]?.name]) || 'text'
+  };
+  
+  if (parsed.type === 'select' && rawOptions !== undefined) {
+    parsed.options = rawOptions.split('|').map(option => option.trim()).filter(Boolean);
+  }
+  if (parsed.type === 'table' && rawOptions !== undefined) {
+    parsed.columns = rawOptions.split('|').map(column => column.trim()).filter(Boolean);
+  }
+  if (parsed.type === 'image' && rawOptions !== undefined) {
+    parsed.imageSize = parseImageSize(rawOptions);
+  }
+  if (rawDefault !== undefined) {
+    parsed.defaultValue = rawDefault.trim();
+  }
+  if (rawExpression !== undefined) {
+    parsed.expression = rawExpression.trim();
+  }
+  if (optionalMarker) {
+    parsed.optional = true;
+  }
+  if (filters.length > 0) {
+    parsed.filters = filters;
+  }
+  
+  return parsed;
+}
+
+/**
+ * Check that untrusted input (e.g. an API request body) is a valid variable map:
+ * string values, or lists of objects with string values
+ */
+export function isVariableValues(input: unknown): input is VariableValues {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return false;
+  }
+  
+  return Object.values(input).every(value =>
+    typeof value === 'string' ||
+    (Array.isArray(value) && value.every(item =>
+      item && typeof item === 'object' && !Array.isArray(item) &&
+      Object.values(item).every(field => typeof field === 'string')
+    ))
+  );
+}
+
+/**
+ * Whether a value makes a {{#if}} condition true: non-empty lists and
+ * non-empty strings other than "false", "no", "0" and "off"
+ */
+export function isTruthyValue(value: VariableValue | undefined): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  const normalized = (value || '').trim().toLowerCase();
+  return normalized !== '' && !['false', 'no', '0', 'off'].includes(normalized);
 }
 
 export interface DocumentContent {
   title: string;
   content: string;
   variables: TemplateVariable[];
+  document: GoogleDocument; // Full document JSON, filled in memory for previews
+}
+
+// The body, a header, a footer or a footnote; each segment has its own index space
+export interface DocumentSegment {
+  segmentId?: string; // Undefined for the body
+  content: GoogleStructuralElement[];
+}
+
+/**
+ * Every segment of a document: the body first, then headers, footers and footnotes
+ */
+export function getDocumentSegments(doc: GoogleDocument): DocumentSegment[] {
+  return [
+    { content: doc.body?.content || [] },
+    ...[doc.headers, doc.footers, doc.footnotes].flatMap(segments =>
+      Object.entries(segments || {}).map(([segmentId, segment]) => ({ segmentId, content: segment.content || [] }))
+    )
+  ];
 }
 
 /**
@@ -64,11 +208,13 @@ export async function fetchDocumentContent(documentId: string, accessToken: stri
     const doc = await response.json();
     const content = extractTextFromDocument(doc);
     const variables = extractVariables(content);
+    assignTableColumns(doc, variables);
 
     return {
       title: doc.title || 'Untitled Document',
       content,
-      variables
+      variables,
+      document: doc
     };
   } catch (error) {
     console.error('Error fetching document content:', error);
@@ -78,34 +224,30 @@ export async function fetchDocumentContent(documentId: string, accessToken: stri
 
 /**
  * Extract plain text content from Google Docs document structure
+ * (every segment, including nested tables and the table of contents)
  */
 function extractTextFromDocument(doc: GoogleDocument): string {
+  return getDocumentSegments(doc).map(segment => extractTextFromContent(segment.content)).join('');
+}
+
+function extractTextFromContent(content: GoogleStructuralElement[] = []): string {
   let text = '';
   
-  if (doc.body && doc.body.content) {
-    for (const element of doc.body.content) {
-      if (element.paragraph) {
-        for (const paragraphElement of element.paragraph.elements || []) {
-          if (paragraphElement.textRun) {
-            text += paragraphElement.textRun.content || '';
-          }
+  for (const element of content) {
+    if (element.paragraph) {
+      for (const paragraphElement of element.paragraph.elements || []) {
+        if (paragraphElement.textRun) {
+          text += paragraphElement.textRun.content || '';
         }
-      } else if (element.table) {
-        // Handle tables
-        for (const row of element.table.tableRows || []) {
-          for (const cell of row.tableCells || []) {
-            for (const cellContent of cell.content || []) {
-              if (cellContent.paragraph) {
-                for (const paragraphElement of cellContent.paragraph.elements || []) {
-                  if (paragraphElement.textRun) {
-                    text += paragraphElement.textRun.content || '';
-                  }
-                }
-              }
-            }
-          }
+      }
+    } else if (element.table) {
+      for (const row of element.table.tableRows || []) {
+        for (const cell of row.tableCells || []) {
+          text += extractTextFromContent(cell.content);
         }
       }
+    } else if (element.tableOfContents) {
+      text += extractTextFromContent(element.tableOfContents.content);
     }
   }
   
@@ -114,49 +256,251 @@ function extractTextFromDocument(doc: GoogleDocument): string {
 
 /**
  * Extract template variables from document content
- * Looks for patterns like {{variable_name}} or {{variable_name:type}}
+ * Looks for patterns like {{variable_name}} or {{variable_name:type}} (see parsePlaceholder).
+ * Placeholders inside {{#each list}} ... {{/each}} become fields of the list variable,
+ * and {{#if flag}} conditions become boolean variables.
  */
 function extractVariables(content: string): TemplateVariable[] {
-  const variableRegex = /\{\{([^}]+)\}\}/g;
+  const variableRegex = new RegExp(PLACEHOLDER_REGEX.source, 'g');
   const variables: TemplateVariable[] = [];
-  const seen = new Set<string>();
+  let currentList: TemplateVariable | null = null;
   
   let match;
   while ((match = variableRegex.exec(content)) !== null) {
     const fullMatch = match[0]; // {{variable_name}}
-    const variableContent = match[1].trim(); // variable_name or variable_name:type
     
-    // Check if variable has type specification
-    const [name, type] = variableContent.split(':').map(s => s.trim());
+    // Repeating section boundaries
+    const eachMatch = fullMatch.match(EACH_OPEN_REGEX);
+    if (eachMatch) {
+      const listName = eachMatch[1];
+      currentList = variables.find(v => v.name === listName) || null;
+      if (!currentList) {
+        currentList = { name: listName, placeholder: fullMatch, type: 'list', fields: [] };
+        variables.push(currentList);
+      } else if (currentList.type !== 'list') {
+        // Already seen as an {{#if}} condition; a list is truthy when it has items
+        Object.assign(currentList, { placeholder: fullMatch, type: 'list', fields: [] });
+      }
+      continue;
+    }
+    if (EACH_CLOSE_REGEX.test(fullMatch)) {
+      currentList = null;
+      continue;
+    }
+    
+    // Conditions are always evaluated against top-level values
+    const ifMatch = fullMatch.match(IF_OPEN_REGEX);
+    if (ifMatch) {
+      if (!variables.some(v => v.name === ifMatch[1])) {
+        variables.push({ name: ifMatch[1], placeholder: fullMatch, type: 'boolean' });
+      }
+      continue;
+    }
+    if (ELSE_REGEX.test(fullMatch) || IF_CLOSE_REGEX.test(fullMatch)) {
+      continue;
+    }
+    
+    const parsed = parsePlaceholder(match[1]);
+    if (!parsed) {
+      continue;
+    }
+    const target = currentList ? currentList.fields! : variables;
     
     // Only add unique variables
-    if (!seen.has(name)) {
-      seen.add(name);
-      variables.push({
-        name,
-        placeholder: fullMatch,
-        type: (type as 'text' | 'number' | 'date' | 'email') || 'text'
-      });
+    const existing = target.find(v => v.name === parsed.name);
+    if (!existing) {
+      const variable: TemplateVariable = { name: parsed.name, placeholder: fullMatch };
+      for (const field of VARIABLE_FIELDS) {
+        if (parsed[field] !== undefined) {
+          Object.assign(variable, { [field]: parsed[field] });
+        }
+      }
+      target.push(variable);
+    } else if (parsed.expression && !existing.expression) {
+      // A formula anywhere makes the variable calculated ({{total}} ... {{total = a + b}})
+      Object.assign(existing, { expression: parsed.expression, placeholder: fullMatch });
     }
   }
   
   return variables;
 }
 
+/**
+ * Columns of a table variable: the placeholder's own list, else the non-empty cells
+ * of the row above the placeholder (the header row), else "Column 1", "Column 2", ...
+ */
+export function getTableColumns(declared: string[] | undefined, headerTexts: string[], cellCount: number): string[] {
+  if (declared && declared.length > 0) {
+    return declared;
+  }
+  const headers = headerTexts.map(text => text.trim());
+  if (headers.length > 0 && headers.every(Boolean)) {
+    return headers;
+  }
+  return Array.from({ length: cellCount }, (_, index) => headers[index] || `Column ${index + 1}`);
+}
+
+/**
+ * Give table variables without declared columns the headings of the table they sit in
+ * (tables in any segment, nested tables included)
+ */
+function assignTableColumns(doc: GoogleDocument, variables: TemplateVariable[]): void {
+  // Text of the cell's own paragraphs; placeholders in nested tables belong to those tables
+  const cellText = (cell: GoogleTableCell) => (cell.content || [])
+    .flatMap(element => element.paragraph?.elements || [])
+    .map(element => element.textRun?.content || '')
+    .join('');
+  
+  const visit = (content: GoogleStructuralElement[]) => {
+    for (const element of content) {
+      const rows = element.table?.tableRows || [];
+      rows.forEach((row, rowIndex) => {
+        const cells = row.tableCells || [];
+        for (const cell of cells) {
+          for (const match of cellText(cell).matchAll(new RegExp(PLACEHOLDER_REGEX.source, 'g'))) {
+            const parsed = parsePlaceholder(match[1]);
+            const variable = parsed?.type === 'table' ? variables.find(v => v.name === parsed.name) : undefined;
+            if (variable && !variable.columns) {
+              const headerTexts = rowIndex > 0 ? (rows[rowIndex - 1].tableCells || []).map(cellText) : [];
+              variable.columns = getTableColumns(undefined, headerTexts, cells.length);
+            }
+          }
+          visit(cell.content || []);
+        }
+      });
+    }
+  };
+  
+  for (const segment of getDocumentSegments(doc)) {
+    visit(segment.content);
+  }
+}
+
 /**
  * Replace template variables in content with provided values
  */
-export function replaceVariables(content: string, values: Record<string, string>): string {
-  let result = content;
+export function replaceVariables(content: string, inputValues: VariableValues): string {
+  const values = computeValues(findComputedPlaceholders(content), inputValues);
+  const result = expandEachBlocks(resolveIfBlocks(content, values), values);
+  
+  // Empty required values stay visible as {{name}}; optional ones disappear
+  return result.replace(new RegExp(PLACEHOLDER_REGEX.source, 'g'), (placeholder, inner: string) => {
+    const parsed = parsePlaceholder(inner);
+    if (!parsed) return placeholder;
+    
+    // Tables are shown as one line per row
+    const rows = values[parsed.name];
+    if (parsed.type === 'table' && Array.isArray(rows)) {
+      return rows.map(row => Object.values(row).join(' | ')).join('\n');
+    }
+    
+    const value = resolvePlaceholderValue(parsed, values);
+    if (value === undefined) return placeholder;
+    
+    return value || (parsed.optional ? '' : `{{${parsed.name}}}`);
+  });
+}
+
+/**
+ * Value that replaces a placeholder in a generated document, or undefined to leave it untouched.
+ * Empty values fall back to the placeholder's default; filters are applied to non-empty values.
+ */
+export function resolvePlaceholderValue(parsed: ParsedPlaceholder, values: VariableValues): string | undefined {
+  const value = values[parsed.name];
+  if (Array.isArray(value)) return undefined;
+  
+  const resolved = value === undefined ? parsed.defaultValue : value || parsed.defaultValue || '';
+  return resolved ? applyFilters(resolved, parsed.filters) : resolved;
+}
+
+/**
+ * Parsed computed placeholders ({{name = expression}}) in a piece of text
+ */
+export function findComputedPlaceholders(content: string): ParsedPlaceholder[] {
+  return [...content.matchAll(new RegExp(PLACEHOLDER_REGEX.source, 'g'))]
+    .map(match => parsePlaceholder(match[1]))
+    .filter((parsed): parsed is ParsedPlaceholder => !!parsed?.expression);
+}
+
+/**
+ * Add the results of computed placeholders to the values. Computed values may use each other,
+ * so evaluation repeats until nothing changes; entered values never override a formula.
+ */
+export function computeValues(computed: ParsedPlaceholder[], values: VariableValues): VariableValues {
+  const result: VariableValues = { ...values };
+  const pending = new Map(computed.map(parsed => [parsed.name, parsed.expression!]));
+  for (const name of pending.keys()) {
+    delete result[name];
+  }
+  
+  let progressed = true;
+  while (progressed && pending.size > 0) {
+    progressed = false;
+    for (const [name, expression] of pending) {
+      if (getExpressionReferences(expression).some(reference => pending.has(reference) && reference !== name)) {
+        continue;
+      }
+      const value = evaluateExpression(expression, result);
+      if (value !== undefined) {
+        result[name] = value;
+      }
+      pending.delete(name);
+      progressed = true;
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Keep the matching branch of every {{#if flag}} ... {{else}} ... {{/if}} block (innermost first)
+ */
+function resolveIfBlocks(content: string, values: VariableValues): string {
+  const innermostBlockRegex = new RegExp(
+    `${IF_OPEN_REGEX.source}\\n?((?:(?!${IF_OPEN_REGEX.source})[\\s\\S])*?)${IF_CLOSE_REGEX.source}\\n?`
+  );
   
-  for (const [key, value] of Object.entries(values)) {
-    const regex = new RegExp(`\\{\\{\\s*${key}(?::[^}]*)?\\s*\\}\\}`, 'g');
-    result = result.replace(regex, value || `{{${key}}}`);
+  let result = content;
+  let match;
+  while ((match = innermostBlockRegex.exec(result)) !== null) {
+    const [whenTrue, whenFalse = ''] = match[2].split(new RegExp(`${ELSE_REGEX.source}\\n?`));
+    const kept = isTruthyValue(values[match[1]]) ? whenTrue : whenFalse;
+    result = result.slice(0, match.index) + kept + result.slice(match.index + match[0].length);
   }
   
   return result;
 }
 
+/**
+ * Repeat the body of every {{#each list}} ... {{/each}} block once per list item
+ */
+function expandEachBlocks(content: string, values: VariableValues): string {
+  const blockRegex = new RegExp(
+    `${EACH_OPEN_REGEX.source}\\n?([\\s\\S]*?)${EACH_CLOSE_REGEX.source}\\n?`,
+    'g'
+  );
+  
+  return content.replace(blockRegex, (_block, listName: string, body: string) => {
+    const items = values[listName];
+    if (!Array.isArray(items)) return '';
+    
+    return items.map(item => fillItemFields(body, item)).join('');
+  });
+}
+
+/**
+ * Replace the placeholders of a single list item, leaving all other placeholders untouched
+ */
+export function fillItemFields(content: string, item: ListItemValues): string {
+  // Formulas inside the block (e.g. {{line_total = qty * price}}) are computed per item
+  const values = computeValues(findComputedPlaceholders(content), item);
+  
+  return content.replace(new RegExp(PLACEHOLDER_REGEX.source, 'g'), (placeholder, inner: string) => {
+    const parsed = parsePlaceholder(inner);
+    return parsed && parsed.name in values ? resolvePlaceholderValue(parsed, values) ?? placeholder : placeholder;
+  });
+}
+
 /**
  * Create a new Google Doc with the filled content
  */
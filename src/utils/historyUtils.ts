@@ -0,0 +1,131 @@
+// Generation history: every generated document is recorded on the server (see src/lib/historyStore.ts)
+// with its template, template revision, values, output and user. These helpers call the
+// /api/history routes from the browser; the server fills in the user, revision and time itself.
+
+import { isVariableValues, type VariableValues } from './googleDocsUtils';
+import { isExportFormat, type ExportFormat } from './exportUtils';
+
+// "gdoc" is a document kept in Google Drive; other formats were downloaded
+export type GenerationFormat = ExportFormat | 'gdoc';
+
+// Where the document was generated: the form, a batch run, or the generate API (also used to regenerate)
+export type GenerationSource = 'form' | 'batch' | 'api';
+
+export interface GenerationRecord {
+  id: string;
+  templateId: string;
+  templateName: string;
+  templateRevision?: string; // Docs revisionId of the template when the record was made
+  title: string;
+  values: VariableValues;
+  documentId: string;
+  format: GenerationFormat;
+  source: GenerationSource;
+  user: string; // Email of the signed-in user
+  createdAt: string; // ISO timestamp
+  regeneratedFrom?: string; // ID of the record this one regenerated
+}
+
+// What a client reports; the rest is filled in by the server
+export type GenerationReport = Pick<GenerationRecord, 'templateId' | 'title' | 'values' | 'documentId' | 'format' | 'source'>;
+
+export interface HistoryPage {
+  records: GenerationRecord[]; // Newest first
+  nextCursor?: string; // Pass as "before" to get the next page
+}
+
+export function isGenerationFormat(value: unknown): value is GenerationFormat {
+  return value === 'gdoc' || isExportFormat(value);
+}
+
+/**
+ * Validate an untrusted generation report (the body of POST /api/history)
+ */
+export function isGenerationReport(value: unknown): value is GenerationReport {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const report = value as Record<string, unknown>;
+  return typeof report.templateId === 'string' && !!report.templateId &&
+    typeof report.documentId === 'string' && !!report.documentId &&
+    typeof report.title === 'string' &&
+    isVariableValues(report.values) &&
+    isGenerationFormat(report.format) &&
+    (report.source === 'form' || report.source === 'batch' || report.source === 'api');
+}
+
+/**
+ * Record a generated document. History is best-effort: a failure is logged and never
+ * fails the generation that was already done.
+ */
+export async function recordGeneration(report: GenerationReport): Promise<void> {
+  try {
+    const response = await fetch('/api/history', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(report),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to record generation: ${response.statusText} - ${errorText}`);
+    }
+  } catch (error) {
+    console.error('Error recording generation:', error);
+  }
+}
+
+/**
+ * One page of the signed-in user's generation history
+ */
+export async function listGenerations(before?: string): Promise<HistoryPage> {
+  try {
+    const params = new URLSearchParams();
+    if (before) {
+      params.set('before', before);
+    }
+    const response = await fetch(`/api/history?${params}`);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to load history: ${response.statusText} - ${errorText}`);
+    }
+
+    return response.json();
+  } catch (error) {
+    console.error('Error loading generation history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Generate a new document from a record's template and values (the template's current
+ * revision); the generate route records it with regeneratedFrom set
+ */
+export async function regenerateDocument(record: GenerationRecord): Promise<{ documentId: string; editUrl: string }> {
+  try {
+    const response = await fetch(`/api/templates/${encodeURIComponent(record.templateId)}/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        values: record.values,
+        title: record.title,
+        regeneratedFrom: record.id
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to regenerate document: ${response.statusText} - ${errorText}`);
+    }
+
+    return response.json();
+  } catch (error) {
+    console.error('Error regenerating document:', error);
+    throw error;
+  }
+}
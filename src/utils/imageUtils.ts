@@ -0,0 +1,332 @@
+// Image placeholders: {{logo:image}}, {{signature:image(120x40)}}
+// Values are an image URL or a Drive file (link or ID); uploads are stored in Drive first.
+
+import type { DocsRequest } from '@/types/googleDocs';
+
+// Size hint in points; when only one side is given Docs keeps the aspect ratio
+export interface ImageSize {
+  width?: number;
+  height?: number;
+}
+
+// Drive appProperties tag for images uploaded from the variable form
+export const UPLOADED_IMAGE_APP_PROPERTIES = { docsGeneratorRole: 'image' };
+
+/**
+ * Parse the size hint of an image placeholder: "120x40", "120", "x40" or "width=120,height=40"
+ */
+export function parseImageSize(hint: string | undefined): ImageSize | undefined {
+  if (!hint) return undefined;
+
+  const size: ImageSize = {};
+  const trimmed = hint.trim();
+  const dimensions = trimmed.match(/^(\d+(?:\.\d+)?)?\s*(?:x\s*(\d+(?:\.\d+)?))?$/i);
+
+  if (dimensions) {
+    if (dimensions[1]) size.width = Number(dimensions[1]);
+    if (dimensions[2]) size.height = Number(dimensions[2]);
+  } else {
+    for (const [, key, value] of trimmed.matchAll(/(width|height)\s*=\s*(\d+(?:\.\d+)?)/gi)) {
+      size[key.toLowerCase() as keyof ImageSize] = Number(value);
+    }
+  }
+
+  return size.width || size.height ? size : undefined;
+}
+
+/**
+ * Extract a Drive file ID from a Drive link (/file/d/ID, ?id=ID) or a bare ID
+ */
+export function parseDriveFileId(value: string): string | null {
+  const trimmed = value.trim();
+  const linkMatch = trimmed.match(/^https:\/\/(?:drive|docs)\.google\.com\/.*(?:\/d\/|[?&]id=)([\w-]{20,})/);
+  if (linkMatch) return linkMatch[1];
+  return /^[\w-]{20,}$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Whether a value can fill an image placeholder
+ */
+export function isImageSource(value: string): boolean {
+  if (parseDriveFileId(value)) return true;
+  try {
+    return ['http:', 'https:'].includes(new URL(value.trim()).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Upload an image file to the user's Drive and return its link
+ */
+export async function uploadImageToDrive(file: File, accessToken: string): Promise<string> {
+  try {
+    const metadata = {
+      name: file.name,
+      mimeType: file.type,
+      appProperties: UPLOADED_IMAGE_APP_PROPERTIES
+    };
+    const body = new FormData();
+    body.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
+    body.append('file', file);
+
+    const response = await fetch(
+      'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id',
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to upload image: ${response.statusText} - ${errorText}`);
+    }
+
+    const { id } = await response.json();
+    return `https://drive.google.com/file/d/${id}/view`;
+  } catch (error) {
+    console.error('Error uploading image:', error);
+    throw error;
+  }
+}
+
+export interface ImageSources {
+  uris: Map<string, string>; // Placeholder value -> URI the Docs API can fetch
+  release: () => Promise<void>;
+}
+
+interface LinkGrant {
+  fileId: string;
+  accessToken: string; // The permission is removed with the token that created it
+  permissionId: Promise<string | null>; // null: the file was already shared with anyone, nothing to remove
+  users: number;
+}
+
+// Temporary "anyone with the link" grants in use, per access token and Drive file ID. On the
+// server every user's generations share this module, so a grant is only reused by generations
+// running with the same token, and only the last one to finish removes it.
+const linkGrants = new Map<string, LinkGrant>();
+
+// Released grants whose permission must outlive them because another token's grant on the same
+// file still relies on the file being shared; removed once the file has no grants left
+const deferredRevocations = new Map<string, LinkGrant[]>();
+
+// Permission changes per Drive file, run one at a time so a grant never sees a permission
+// that is being created or removed
+const fileQueues = new Map<string, Promise<unknown>>();
+
+function grantKey(fileId: string, accessToken: string): string {
+  return `${accessToken}\n${fileId}`;
+}
+
+/**
+ * Run a permission change on a Drive file after the changes queued before it
+ */
+function queueForFile<T>(fileId: string, task: () => Promise<T>): Promise<T> {
+  const result = (fileQueues.get(fileId) ?? Promise.resolve()).then(task);
+  const settled = result.catch(() => undefined).finally(() => {
+    if (fileQueues.get(fileId) === settled) {
+      fileQueues.delete(fileId);
+    }
+  });
+  fileQueues.set(fileId, settled);
+  return result;
+}
+
+/**
+ * Make a Drive file readable by anyone with the link for as long as the grant is held.
+ * A permission is only created (and later removed) when the file has no "anyone" permission yet.
+ */
+async function acquireLinkGrant(fileId: string, accessToken: string): Promise<void> {
+  const key = grantKey(fileId, accessToken);
+  const existing = linkGrants.get(key);
+  if (existing) {
+    existing.users++;
+    try {
+      await existing.permissionId;
+    } catch (error) {
+      existing.users--;
+      throw error;
+    }
+    return;
+  }
+
+  const grant: LinkGrant = {
+    fileId,
+    accessToken,
+    users: 1,
+    permissionId: queueForFile(fileId, () => createLinkPermission(fileId, accessToken))
+  };
+  linkGrants.set(key, grant);
+
+  try {
+    await grant.permissionId;
+  } catch (error) {
+    if (linkGrants.get(key) === grant) {
+      linkGrants.delete(key);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Release a grant. A failure to remove its own permission is thrown, since the image would
+ * otherwise stay public without anyone noticing; failures for deferred grants are only logged.
+ */
+async function releaseLinkGrant(fileId: string, accessToken: string): Promise<void> {
+  const key = grantKey(fileId, accessToken);
+  const grant = linkGrants.get(key);
+  if (!grant || --grant.users > 0) {
+    return;
+  }
+  linkGrants.delete(key);
+
+  const pending = [...(deferredRevocations.get(fileId) || []), grant];
+  if ([...linkGrants.values()].some(other => other.fileId === fileId)) {
+    deferredRevocations.set(fileId, pending);
+    return;
+  }
+  deferredRevocations.delete(fileId);
+
+  // Queued before any await, so a grant requested meanwhile waits for the removal
+  const results = await queueForFile(fileId, () => Promise.allSettled(pending.map(revokeLinkGrant)));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Image ${fileId} is still shared with anyone with the link; remove that sharing in Drive:`, result.reason);
+      if (pending[index] === grant) {
+        throw result.reason;
+      }
+    }
+  });
+}
+
+async function revokeLinkGrant(grant: LinkGrant): Promise<void> {
+  const permissionId = await grant.permissionId.catch(() => null);
+  if (!permissionId) {
+    return;
+  }
+
+  const response = await fetch(
+    `https://www.googleapis.com/drive/v3/files/${grant.fileId}/permissions/${permissionId}?supportsAllDrives=true`,
+    {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${grant.accessToken}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to remove temporary sharing of image ${grant.fileId}: ${response.statusText} - ${errorText}`);
+  }
+}
+
+/**
+ * Add an "anyone with the link" reader permission unless the file already has one.
+ * Returns the ID of the permission created, or null when the existing sharing was enough.
+ */
+async function createLinkPermission(fileId: string, accessToken: string): Promise<string | null> {
+  const listResponse = await fetch(
+    `https://www.googleapis.com/drive/v3/files/${fileId}/permissions?fields=permissions(id,type)&supportsAllDrives=true`,
+    {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    }
+  );
+
+  if (!listResponse.ok) {
+    const errorText = await listResponse.text();
+    throw new Error(`Failed to read sharing of image ${fileId}: ${listResponse.statusText} - ${errorText}`);
+  }
+
+  const { permissions = [] } = await listResponse.json();
+  if (permissions.some((permission: { type?: string }) => permission.type === 'anyone')) {
+    return null;
+  }
+
+  const response = await fetch(
+    `https://www.googleapis.com/drive/v3/files/${fileId}/permissions?fields=id&supportsAllDrives=true`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ role: 'reader', type: 'anyone' })
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to share image ${fileId}: ${response.statusText} - ${errorText}`);
+  }
+
+  const { id } = await response.json();
+  return id;
+}
+
+/**
+ * Turn image values into URIs for insertInlineImage. The Docs API fetches images anonymously,
+ * so Drive files get a temporary "anyone with the link" permission, removed again by release()
+ * unless the file was already shared that way. Values that are not image sources get no URI.
+ */
+export async function prepareImageSources(values: string[], accessToken: string): Promise<ImageSources> {
+  const uris = new Map<string, string>();
+  const fileIds: string[] = [];
+
+  const release = async () => {
+    const released = fileIds.splice(0);
+    await Promise.all(released.map(fileId => releaseLinkGrant(fileId, accessToken)));
+  };
+
+  try {
+    for (const value of new Set(values)) {
+      const fileId = parseDriveFileId(value);
+      if (!fileId) {
+        if (isImageSource(value)) uris.set(value, value.trim());
+        continue;
+      }
+      if (fileIds.includes(fileId)) {
+        uris.set(value, `https://drive.google.com/uc?export=download&id=${fileId}`);
+        continue;
+      }
+
+      await acquireLinkGrant(fileId, accessToken);
+      fileIds.push(fileId);
+      uris.set(value, `https://drive.google.com/uc?export=download&id=${fileId}`);
+    }
+  } catch (error) {
+    // A failed removal is already logged; the original error is the one to report
+    await release().catch(() => undefined);
+    console.error('Error preparing image sources:', error);
+    throw error;
+  }
+
+  return { uris, release };
+}
+
+/**
+ * Requests replacing [startIndex, endIndex) with an inline image
+ */
+export function insertImageRequests(startIndex: number, endIndex: number, uri: string, size?: ImageSize): DocsRequest[] {
+  const objectSize: Record<string, { magnitude: number; unit: string }> = {};
+  if (size?.width) objectSize.width = { magnitude: size.width, unit: 'PT' };
+  if (size?.height) objectSize.height = { magnitude: size.height, unit: 'PT' };
+
+  return [
+    { deleteContentRange: { range: { startIndex, endIndex } } },
+    {
+      insertInlineImage: {
+        location: { index: startIndex },
+        uri,
+        ...(size ? { objectSize } : {})
+      }
+    }
+  ];
+}
@@ -0,0 +1,656 @@
+// Fill a template's document JSON in memory for instant previews.
+// The same passes as generateDocument run on a clone of the template (conditional sections,
+// repeating sections, dynamic tables, then placeholders) without any Drive or Docs API writes.
+
+import type {
+  GoogleDocument,
+  GoogleParagraph,
+  GoogleParagraphElement,
+  GoogleStructuralElement,
+  GoogleTable,
+  GoogleTableRow,
+  GoogleTextRun,
+  GoogleTextStyle
+} from '@/types/googleDocs';
+import {
+  EACH_OPEN_REGEX,
+  EACH_CLOSE_REGEX,
+  IF_OPEN_REGEX,
+  ELSE_REGEX,
+  IF_CLOSE_REGEX,
+  PLACEHOLDER_REGEX,
+  computeValues,
+  findComputedPlaceholders,
+  getTableColumns,
+  isTruthyValue,
+  parsePlaceholder,
+  resolvePlaceholderValue,
+  type ListItemValues,
+  type VariableValues
+} from './googleDocsUtils';
+import { collectDocumentParagraphs } from './blockUtils';
+import { isImageSource, parseDriveFileId, type ImageSize } from './imageUtils';
+import { escapeHtml, renderDocumentHtml } from './docsHtmlUtils';
+
+// Stand-in character for inline objects and for tables and other blocks
+const OBJECT_CHARACTER = '\uFFFC';
+
+// The variable behind filled or unresolved placeholder text, for marking it in the preview
+export interface PreviewPlaceholder {
+  name: string;
+  unresolved: boolean;
+}
+
+// Text runs of filled documents that came from a placeholder
+const placeholderRuns = new WeakMap<GoogleTextRun, PreviewPlaceholder>();
+
+/**
+ * One character of a text flow (a segment body or a table cell). Editing a flow as characters
+ * keeps the Docs semantics: inserted text takes the style of the character it replaces, and a
+ * paragraph's style belongs to its newline, so deleting a newline merges into the next paragraph.
+ */
+interface Atom {
+  char: string;
+  style?: GoogleTextStyle; // Shared by every character of the original text run
+  placeholder?: PreviewPlaceholder;
+  element?: GoogleParagraphElement; // Inline image, footnote reference, page break, ...
+  paragraph?: GoogleParagraph; // Set on a paragraph's newline: its style and bullet, without elements
+  block?: GoogleStructuralElement; // Table, table of contents or section break
+}
+
+interface AtomTag {
+  start: number;
+  end: number;
+  match: RegExpExecArray;
+}
+
+interface Pass {
+  flow: (atoms: Atom[]) => Atom[];
+  table?: (table: GoogleTable) => void;
+}
+
+interface FillContext {
+  doc: GoogleDocument;
+  unresolved: Set<string>;
+  blankAsUnfilled: boolean;
+}
+
+export interface FilledDocument {
+  document: GoogleDocument;
+  unresolvedPlaceholders: string[]; // Placeholders left in the document, e.g. {{missing}}
+}
+
+/**
+ * Fill a template document with values, returning the filled copy and the placeholders that
+ * could not be filled. The template itself is not modified.
+ * With blankAsUnfilled, blank values without a default leave their placeholder in place, as unresolved
+ * (the form starts every field blank, so a live preview would otherwise just drop the placeholders).
+ */
+export function fillTemplateDocument(
+  template: GoogleDocument,
+  variables: VariableValues,
+  options: { blankAsUnfilled?: boolean } = {}
+): FilledDocument {
+  const doc = structuredClone(template);
+  const context: FillContext = { doc, unresolved: new Set(), blankAsUnfilled: !!options.blankAsUnfilled };
+  // The body, headers, footers and footnotes are filled alike, each as its own flow
+  const segments = [
+    ...(doc.body ? [doc.body] : []),
+    ...[doc.headers, doc.footers, doc.footnotes].flatMap(group => Object.values(group || {}))
+  ];
+  const fillSegments = (pass: Pass) => {
+    for (const segment of segments) {
+      segment.content = processFlow(segment.content || [], pass);
+    }
+  };
+
+  fillSegments({ flow: atoms => resolveConditionals(atoms, variables) });
+  fillSegments({
+    flow: atoms => expandRepeatingBlocks(atoms, variables, context),
+    table: table => expandRowBlocks(table, variables, context)
+  });
+  fillSegments({ flow: atoms => atoms, table: table => fillTableRows(table, variables) });
+
+  const values = computeValues(
+    findComputedPlaceholders(collectDocumentParagraphs(doc).map(paragraph => paragraph.text).join('')),
+    variables
+  );
+  fillSegments({ flow: atoms => replacePlaceholders(atoms, values, context) });
+
+  return { document: doc, unresolvedPlaceholders: [...context.unresolved] };
+}
+
+/**
+ * Render the preview HTML of a template filled with values (see fillTemplateDocument).
+ * With markPlaceholders, text that came from a placeholder is wrapped in a span with a
+ * data-variable attribute, and placeholders left unfilled (or blank) are highlighted.
+ */
+export function renderLocalPreview(
+  template: GoogleDocument,
+  variables: VariableValues,
+  options: { markPlaceholders?: boolean } = {}
+): { html: string; unresolvedPlaceholders: string[] } {
+  const { document, unresolvedPlaceholders } = fillTemplateDocument(template, variables, {
+    blankAsUnfilled: options.markPlaceholders
+  });
+  const html = renderDocumentHtml(document, options.markPlaceholders ? { decorateRun: markPlaceholderRun } : {});
+  return { html, unresolvedPlaceholders };
+}
+
+function markPlaceholderRun(run: GoogleTextRun, html: string): string {
+  const placeholder = placeholderRuns.get(run);
+  if (!placeholder) return html;
+
+  const style = placeholder.unresolved
+    ? 'background-color: #fef08a; outline: 1px solid #facc15; cursor: pointer'
+    : 'border-bottom: 1px dotted #60a5fa; cursor: pointer';
+  const name = escapeHtml(placeholder.name);
+  return `<span data-variable="${name}" title="Edit ${name}" style="${style}">${html}</span>`;
+}
+
+function processFlow(content: GoogleStructuralElement[], pass: Pass): GoogleStructuralElement[] {
+  const atoms = pass.flow(toAtoms(content));
+
+  for (const atom of atoms) {
+    if (atom.block?.table && pass.table) {
+      pass.table(atom.block.table);
+    }
+    if (atom.block) {
+      mapNestedFlows(atom.block, nested => processFlow(nested, pass));
+    }
+  }
+
+  return fromAtoms(atoms);
+}
+
+function mapNestedFlows(
+  block: GoogleStructuralElement,
+  map: (content: GoogleStructuralElement[]) => GoogleStructuralElement[]
+): void {
+  for (const row of block.table?.tableRows || []) {
+    for (const cell of row.tableCells || []) {
+      cell.content = map(cell.content || []);
+    }
+  }
+  if (block.tableOfContents) {
+    block.tableOfContents.content = map(block.tableOfContents.content || []);
+  }
+}
+
+function toAtoms(content: GoogleStructuralElement[] = []): Atom[] {
+  const atoms: Atom[] = [];
+
+  for (const element of content) {
+    if (!element.paragraph) {
+      atoms.push({ char: OBJECT_CHARACTER, block: element });
+      continue;
+    }
+
+    const { elements = [], ...paragraph } = element.paragraph;
+    const paragraphStart = atoms.length;
+    for (const child of elements) {
+      if (!child.textRun) {
+        atoms.push({ char: OBJECT_CHARACTER, element: child });
+        continue;
+      }
+      const style = child.textRun.textStyle;
+      const placeholder = placeholderRuns.get(child.textRun);
+      const text = child.textRun.content || '';
+      for (let i = 0; i < text.length; i++) {
+        atoms.push({ char: text[i], style, placeholder });
+      }
+    }
+
+    // The last run ends with the paragraph's newline
+    const last = atoms[atoms.length - 1];
+    if (atoms.length > paragraphStart && last.char === '\n' && !last.element) {
+      last.paragraph = paragraph;
+    } else {
+      atoms.push({ char: '\n', paragraph });
+    }
+  }
+
+  return atoms;
+}
+
+function fromAtoms(atoms: Atom[]): GoogleStructuralElement[] {
+  const content: GoogleStructuralElement[] = [];
+  let elements: GoogleParagraphElement[] = [];
+  let run: GoogleTextRun | null = null;
+
+  for (const atom of atoms) {
+    if (atom.block) {
+      if (elements.length > 0) {
+        content.push({ paragraph: { elements } });
+        elements = [];
+        run = null;
+      }
+      content.push(atom.block);
+      continue;
+    }
+
+    if (atom.element) {
+      elements.push(atom.element);
+      run = null;
+    } else if (run && run.textStyle === atom.style && placeholderRuns.get(run) === atom.placeholder) {
+      run.content += atom.char;
+    } else {
+      run = { content: atom.char, textStyle: atom.style };
+      if (atom.placeholder) placeholderRuns.set(run, atom.placeholder);
+      elements.push({ textRun: run });
+    }
+
+    if (atom.paragraph) {
+      content.push({ paragraph: { ...atom.paragraph, elements } });
+      elements = [];
+      run = null;
+    }
+  }
+
+  if (elements.length > 0) {
+    content.push({ paragraph: { elements } });
+  }
+  return content;
+}
+
+function atomText(atoms: Atom[]): string {
+  return atoms.map(atom => atom.char).join('');
+}
+
+function textAtoms(text: string, style: GoogleTextStyle | undefined, placeholder: PreviewPlaceholder): Atom[] {
+  return text.split('').map(char => ({ char, style, placeholder }));
+}
+
+function spliceAtoms(atoms: Atom[], start: number, end: number, inserted: Atom[] = []): Atom[] {
+  // Not Array.prototype.splice: spreading thousands of repeated atoms as arguments can overflow the stack
+  return atoms.slice(0, start).concat(inserted, atoms.slice(end));
+}
+
+/**
+ * Copy atoms so the tables they hold can be filled independently
+ */
+function cloneAtoms(atoms: Atom[]): Atom[] {
+  return atoms.map(atom => atom.block ? { ...atom, block: structuredClone(atom.block) } : atom);
+}
+
+function isLineEnd(atom: Atom): boolean {
+  return !!(atom.paragraph || atom.block);
+}
+
+/**
+ * Find every match of a tag pattern in the paragraphs of a flow (tags never span paragraphs)
+ */
+function findAtomTags(atoms: Atom[], pattern: RegExp): AtomTag[] {
+  const text = atomText(atoms);
+  const regex = new RegExp(pattern.source, 'g');
+  const tags: AtomTag[] = [];
+  let lineStart = 0;
+
+  for (let i = 0; i <= atoms.length; i++) {
+    if (i < atoms.length && !isLineEnd(atoms[i])) continue;
+
+    const line = text.slice(lineStart, i);
+    let match;
+    while ((match = regex.exec(line)) !== null) {
+      tags.push({ start: lineStart + match.index, end: lineStart + match.index + match[0].length, match });
+    }
+    regex.lastIndex = 0;
+    lineStart = i + 1;
+  }
+
+  return tags;
+}
+
+/**
+ * Start of a tag's paragraph and the index of its newline
+ */
+function getLine(atoms: Atom[], tag: AtomTag): [number, number] {
+  let start = tag.start;
+  while (start > 0 && !isLineEnd(atoms[start - 1])) start--;
+  let end = tag.end;
+  while (end < atoms.length && !isLineEnd(atoms[end])) end++;
+  return [start, end];
+}
+
+function isTagAlone(atoms: Atom[], tag: AtomTag): boolean {
+  const [start, end] = getLine(atoms, tag);
+  return atomText(atoms.slice(start, end)).trim() === tag.match[0];
+}
+
+/**
+ * Whether a paragraph's newline can be deleted: not the last paragraph of its flow
+ * and not the paragraph in front of a table
+ */
+function canMergeLine(atoms: Atom[], newlineIndex: number): boolean {
+  const next = atoms[newlineIndex + 1];
+  return !!next && !next.block;
+}
+
+/**
+ * Range removed together with a tag: the whole paragraph when the tag stands alone
+ * (unless its newline cannot be deleted), otherwise just the tag text
+ */
+function tagRemovalRange(atoms: Atom[], tag: AtomTag): [number, number] {
+  const [start, end] = getLine(atoms, tag);
+  if (isTagAlone(atoms, tag) && canMergeLine(atoms, end)) {
+    return [start, end + 1];
+  }
+  return [tag.start, tag.end];
+}
+
+/**
+ * Keep the matching branch of every {{#if flag}} ... {{else}} ... {{/if}} block, innermost first
+ */
+function resolveConditionals(atoms: Atom[], values: VariableValues): Atom[] {
+  let result = atoms;
+
+  for (;;) {
+    const tags = [
+      ...findAtomTags(result, IF_OPEN_REGEX).map(tag => ({ tag, kind: 'open' as const })),
+      ...findAtomTags(result, ELSE_REGEX).map(tag => ({ tag, kind: 'else' as const })),
+      ...findAtomTags(result, IF_CLOSE_REGEX).map(tag => ({ tag, kind: 'close' as const }))
+    ].sort((a, b) => a.tag.start - b.tag.start);
+
+    const stack: Array<{ open: AtomTag; otherwise?: AtomTag }> = [];
+    let block: { open: AtomTag; otherwise?: AtomTag; close: AtomTag } | null = null;
+    for (const { tag, kind } of tags) {
+      if (kind === 'open') {
+        stack.push({ open: tag });
+      } else if (kind === 'else') {
+        const current = stack[stack.length - 1];
+        if (current && !current.otherwise) current.otherwise = tag;
+      } else if (stack.length > 0) {
+        block = { ...stack.pop()!, close: tag };
+        break;
+      }
+    }
+
+    if (!block) {
+      return result;
+    }
+
+    const openRange = tagRemovalRange(result, block.open);
+    const closeRange = tagRemovalRange(result, block.close);
+    const elseRange = block.otherwise ? tagRemovalRange(result, block.otherwise) : null;
+
+    const ranges: Array<[number, number]> = [];
+    if (isTruthyValue(values[block.open.match[1]])) {
+      ranges.push(openRange, elseRange ? [elseRange[0], closeRange[1]] : closeRange);
+    } else if (elseRange) {
+      ranges.push([openRange[0], elseRange[1]], closeRange);
+    } else {
+      ranges.push([openRange[0], closeRange[1]]);
+    }
+
+    for (const [start, end] of ranges.reverse()) {
+      result = spliceAtoms(result, start, end);
+    }
+  }
+}
+
+/**
+ * Repeat the text between {{#each list}} and {{/each}} once per list item, innermost block first
+ */
+function expandRepeatingBlocks(atoms: Atom[], values: VariableValues, context: FillContext): Atom[] {
+  let result = atoms;
+
+  for (;;) {
+    const tags = [
+      ...findAtomTags(result, EACH_OPEN_REGEX).map(tag => ({ tag, isOpen: true })),
+      ...findAtomTags(result, EACH_CLOSE_REGEX).map(tag => ({ tag, isOpen: false }))
+    ].sort((a, b) => a.tag.start - b.tag.start);
+
+    const stack: AtomTag[] = [];
+    let block: { open: AtomTag; close: AtomTag } | null = null;
+    for (const { tag, isOpen } of tags) {
+      if (isOpen) {
+        stack.push(tag);
+      } else if (stack.length > 0) {
+        block = { open: stack.pop()!, close: tag };
+        break;
+      }
+    }
+
+    if (!block) {
+      return result;
+    }
+
+    const { open, close } = block;
+    let deleteStart = open.start;
+    let contentStart = open.end;
+    let contentEnd = close.start;
+    let deleteEnd = close.end;
+
+    // Tags on their own line take their whole paragraph with them
+    if (isTagAlone(result, open)) {
+      const [lineStart, newline] = getLine(result, open);
+      deleteStart = lineStart;
+      contentStart = newline + 1;
+    }
+    if (isTagAlone(result, close)) {
+      const [lineStart, newline] = getLine(result, close);
+      contentEnd = lineStart;
+      if (canMergeLine(result, newline)) {
+        deleteEnd = newline + 1;
+      }
+    }
+
+    const body = result.slice(contentStart, contentEnd);
+    const value = values[open.match[1]];
+    const items = Array.isArray(value) ? value : [];
+    const copies = items.flatMap(item => fillItemFields(cloneAtoms(body), item, open.match[1], context));
+
+    result = spliceAtoms(result, deleteStart, deleteEnd, copies);
+  }
+}
+
+/**
+ * Repeat table rows whose {{#each list}} and {{/each}} tags sit in different cells of the row
+ */
+function expandRowBlocks(table: GoogleTable, values: VariableValues, context: FillContext): void {
+  const rows = table.tableRows || [];
+  const countTags = (atoms: Atom[], pattern: RegExp) => findAtomTags(atoms, pattern).length;
+
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    const cells = rows[rowIndex].tableCells || [];
+    const cellAtoms = cells.map(cell => toAtoms(cell.content));
+    const openColumn = cellAtoms.findIndex(atoms =>
+      countTags(atoms, EACH_OPEN_REGEX) > countTags(atoms, EACH_CLOSE_REGEX)
+    );
+    const closeColumn = cellAtoms.findIndex((atoms, columnIndex) =>
+      columnIndex > openColumn && countTags(atoms, EACH_CLOSE_REGEX) > countTags(atoms, EACH_OPEN_REGEX)
+    );
+    if (openColumn < 0 || closeColumn < 0) continue;
+
+    const open = findAtomTags(cellAtoms[openColumn], EACH_OPEN_REGEX).pop()!;
+    const close = findAtomTags(cellAtoms[closeColumn], EACH_CLOSE_REGEX)[0];
+    cellAtoms[openColumn] = spliceAtoms(cellAtoms[openColumn], ...tagRemovalRange(cellAtoms[openColumn], open));
+    cellAtoms[closeColumn] = spliceAtoms(cellAtoms[closeColumn], ...tagRemovalRange(cellAtoms[closeColumn], close));
+
+    const value = values[open.match[1]];
+    const items = Array.isArray(value) ? value : [];
+    const copies: GoogleTableRow[] = items.map(item => ({
+      ...rows[rowIndex],
+      tableCells: cells.map((cell, columnIndex) => ({
+        ...cell,
+        content: fromAtoms(fillItemFields(cloneAtoms(cellAtoms[columnIndex]), item, open.match[1], context))
+      }))
+    }));
+
+    rows.splice(rowIndex, 1, ...copies);
+    rowIndex += copies.length - 1;
+  }
+
+  table.rows = rows.length;
+}
+
+/**
+ * Fill {{name:table}} placeholders: the row holding the placeholder is repeated once per value row,
+ * each cell showing its column's value in the style of the cell's first text run
+ */
+function fillTableRows(table: GoogleTable, values: VariableValues): void {
+  const rows = table.tableRows || [];
+
+  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+    const cells = rows[rowIndex].tableCells || [];
+    let found: { columnIndex: number; tag: AtomTag; columns?: string[]; items: ListItemValues[] } | null = null;
+
+    for (let columnIndex = 0; columnIndex < cells.length && !found; columnIndex++) {
+      for (const tag of findAtomTags(toAtoms(cells[columnIndex].content), PLACEHOLDER_REGEX)) {
+        const parsed = parsePlaceholder(tag.match[1]);
+        const value = parsed ? values[parsed.name] : undefined;
+        if (parsed?.type === 'table' && Array.isArray(value)) {
+          found = { columnIndex, tag, columns: parsed.columns, items: value };
+          break;
+        }
+      }
+    }
+    if (!found) continue;
+
+    if (found.items.length === 0) {
+      // A table cannot lose its last row, so a single-row table only loses the placeholder
+      if (rows.length > 1) {
+        rows.splice(rowIndex, 1);
+        rowIndex--;
+      } else {
+        const cell = cells[found.columnIndex];
+        cell.content = fromAtoms(spliceAtoms(toAtoms(cell.content), found.tag.start, found.tag.end));
+      }
+      continue;
+    }
+
+    const flowText = (content?: GoogleStructuralElement[]) => atomText(toAtoms(content));
+    const headerTexts = rowIndex > 0 ? (rows[rowIndex - 1].tableCells || []).map(cell => flowText(cell.content)) : [];
+    const columns = getTableColumns(found.columns, headerTexts, cells.length);
+
+    const copies: GoogleTableRow[] = found.items.map(item => ({
+      ...rows[rowIndex],
+      tableCells: cells.map((cell, columnIndex) => {
+        const paragraph = cell.content?.find(element => element.paragraph)?.paragraph;
+        const textStyle = paragraph?.elements?.find(element => element.textRun)?.textRun?.textStyle;
+        const text = columnIndex < columns.length ? item[columns[columnIndex]] ?? '' : '';
+        return {
+          ...cell,
+          content: [{
+            paragraph: {
+              paragraphStyle: paragraph?.paragraphStyle,
+              bullet: paragraph?.bullet,
+              elements: [{ textRun: { content: `${text}\n`, textStyle } }]
+            }
+          }]
+        };
+      })
+    }));
+
+    rows.splice(rowIndex, 1, ...copies);
+    rowIndex += copies.length - 1;
+  }
+
+  table.rows = rows.length;
+}
+
+/**
+ * Replace placeholder occurrences from the end of a flow; replace returns the new atoms
+ * (inserted text takes the style of the placeholder's first character), or undefined to leave the placeholder
+ */
+function substitute(atoms: Atom[], replace: (tag: AtomTag, atoms: Atom[]) => Atom[] | undefined): Atom[] {
+  let result = atoms;
+  for (const tag of findAtomTags(atoms, PLACEHOLDER_REGEX).reverse()) {
+    const inserted = replace(tag, result);
+    if (inserted) {
+      result = spliceAtoms(result, tag.start, tag.end, inserted);
+    }
+  }
+  return result;
+}
+
+/**
+ * Replace the placeholders of a single list item (including nested tables), leaving all others untouched.
+ * Filled fields, and blank ones kept as unresolved, are marked with the list's name.
+ */
+function fillItemFields(atoms: Atom[], item: ListItemValues, listName: string, context: FillContext): Atom[] {
+  // Formulas inside the block (e.g. {{line_total = qty * price}}) are computed per item
+  const values = computeValues(findComputedPlaceholders(atomText(atoms)), item);
+  const placeholder: PreviewPlaceholder = { name: listName, unresolved: false };
+  const unfilled: PreviewPlaceholder = { name: listName, unresolved: true };
+
+  const result = substitute(atoms, (tag, current) => {
+    const parsed = parsePlaceholder(tag.match[1]);
+    const value = parsed && parsed.name in values ? resolvePlaceholderValue(parsed, values) : undefined;
+    if (value === '' && context.blankAsUnfilled) {
+      context.unresolved.add(tag.match[0]);
+      return current.slice(tag.start, tag.end).map(atom => ({ ...atom, placeholder: unfilled }));
+    }
+    return value === undefined ? undefined : textAtoms(value, current[tag.start].style, placeholder);
+  });
+
+  for (const atom of result) {
+    if (atom.block) {
+      mapNestedFlows(atom.block, nested => fromAtoms(fillItemFields(toAtoms(nested), item, listName, context)));
+    }
+  }
+  return result;
+}
+
+/**
+ * Fill the remaining placeholders; the ones that cannot be filled stay in the text, marked as unresolved
+ */
+function replacePlaceholders(atoms: Atom[], values: VariableValues, context: FillContext): Atom[] {
+  return substitute(atoms, (tag, current) => {
+    // Blank list fields were already kept and marked with their list
+    if (current[tag.start].placeholder?.unresolved) {
+      return undefined;
+    }
+    const parsed = parsePlaceholder(tag.match[1]);
+    const name = parsed?.name ?? tag.match[1].trim();
+    const keep = () => {
+      context.unresolved.add(tag.match[0]);
+      const placeholder: PreviewPlaceholder = { name, unresolved: true };
+      return current.slice(tag.start, tag.end).map(atom => ({ ...atom, placeholder }));
+    };
+
+    const value = parsed ? resolvePlaceholderValue(parsed, values) : undefined;
+    // resolvePlaceholderValue gives '' only for a blank value without a default
+    if (!parsed || value === undefined || (value === '' && context.blankAsUnfilled)) {
+      return keep();
+    }
+    if (parsed.type !== 'image' || !value) {
+      return textAtoms(value, current[tag.start].style, { name, unresolved: false });
+    }
+
+    const element = addPreviewImage(context, value, parsed.imageSize);
+    return element ? [{ char: OBJECT_CHARACTER, element }] : keep();
+  });
+}
+
+/**
+ * Add an inline object showing an image value. Drive files are shown through their thumbnail,
+ * which the signed-in user can load without the file being shared.
+ */
+function addPreviewImage(context: FillContext, value: string, size?: ImageSize): GoogleParagraphElement | null {
+  if (!isImageSource(value)) {
+    return null;
+  }
+
+  const fileId = parseDriveFileId(value);
+  const contentUri = fileId ? `https://drive.google.com/thumbnail?id=${fileId}&sz=w1000` : value.trim();
+  const inlineObjects = context.doc.inlineObjects || {};
+  const inlineObjectId = `preview-image-${Object.keys(inlineObjects).length}`;
+
+  context.doc.inlineObjects = {
+    ...inlineObjects,
+    [inlineObjectId]: {
+      inlineObjectProperties: {
+        embeddedObject: {
+          imageProperties: { contentUri },
+          size: {
+            width: size?.width ? { magnitude: size.width, unit: 'PT' } : undefined,
+            height: size?.height ? { magnitude: size.height, unit: 'PT' } : undefined
+          }
+        }
+      }
+    }
+  };
+
+  return { inlineObjectElement: { inlineObjectId } };
+}
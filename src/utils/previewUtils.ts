@@ -0,0 +1,218 @@
+// Lifecycle of the documents generated for export and "Save to Drive".
+// One document per template is cached for the current (template, values) pair so that
+// export and "Save to Drive" act on the same copy (previews are rendered locally, see localPreviewUtils).
+
+import {
+  GENERATED_APP_PROPERTIES,
+  generateDocument,
+  trashDocument,
+  updateDocumentMetadata,
+  type GeneratedDocument
+} from './advancedDocsUtils';
+import type { VariableValues } from './googleDocsUtils';
+
+// Drive appProperties tag marking a document as a preview copy
+export const PREVIEW_APP_PROPERTIES = { docsGeneratorRole: 'preview' };
+
+// Previews older than this are considered orphaned (the tab closed before cleanup ran)
+export const DEFAULT_PREVIEW_MAX_AGE_MS = 60 * 60 * 1000;
+
+// Younger previews may still be in use by an open tab, so cleanup never goes below this age
+export const MIN_PREVIEW_MAX_AGE_MS = 10 * 60 * 1000;
+
+interface CachedDocument {
+  valuesKey: string;
+  document: Promise<GeneratedDocument>;
+  saved: boolean;
+}
+
+// Latest generated document per template ID
+const generatedDocuments = new Map<string, CachedDocument>();
+
+/**
+ * Serialize values with sorted keys so equal values always produce the same cache key
+ */
+function getValuesKey(values: VariableValues): string {
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  };
+  return JSON.stringify(sortKeys(values));
+}
+
+function discardEntry(entry: CachedDocument, accessToken: string): void {
+  if (entry.saved) return;
+
+  // A failed cleanup leaves a tagged orphan for purgeStalePreviews, so errors are only logged
+  entry.document
+    .then(({ documentId }) => trashDocument(documentId, accessToken))
+    .catch(error => {
+      console.error('Error cleaning up preview document:', error);
+    });
+}
+
+/**
+ * Get the generated document for (template, values), creating a tagged preview copy on first use.
+ * An unsaved document generated earlier for different values is trashed.
+ */
+export async function getGeneratedDocument(
+  templateDocId: string,
+  title: string,
+  variables: VariableValues,
+  accessToken: string
+): Promise<GeneratedDocument> {
+  const valuesKey = getValuesKey(variables);
+  const existing = generatedDocuments.get(templateDocId);
+
+  if (existing && existing.valuesKey === valuesKey) {
+    return existing.document;
+  }
+  if (existing) {
+    discardEntry(existing, accessToken);
+  }
+
+  const entry: CachedDocument = {
+    valuesKey,
+    document: generateDocument(
+      templateDocId,
+      `${title} - Preview ${Date.now()}`,
+      variables,
+      accessToken,
+      PREVIEW_APP_PROPERTIES
+    ),
+    saved: false
+  };
+  generatedDocuments.set(templateDocId, entry);
+
+  try {
+    return await entry.document;
+  } catch (error) {
+    // Let the next call retry instead of replaying the failure
+    if (generatedDocuments.get(templateDocId) === entry) {
+      generatedDocuments.delete(templateDocId);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Keep the generated document: rename it from its preview title and retag it as generated
+ */
+export async function saveGeneratedDocument(
+  templateDocId: string,
+  title: string,
+  variables: VariableValues,
+  newTitle: string,
+  accessToken: string
+): Promise<string> {
+  const { documentId } = await getGeneratedDocument(templateDocId, title, variables, accessToken);
+  await updateDocumentMetadata(
+    documentId,
+    { name: newTitle, appProperties: GENERATED_APP_PROPERTIES },
+    accessToken
+  );
+
+  const entry = generatedDocuments.get(templateDocId);
+  if (entry) {
+    entry.saved = true;
+  }
+
+  return documentId;
+}
+
+/**
+ * Trash every cached document that was never saved (e.g. when the user leaves the template)
+ */
+export function discardGeneratedDocuments(accessToken: string): void {
+  for (const entry of generatedDocuments.values()) {
+    discardEntry(entry, accessToken);
+  }
+  generatedDocuments.clear();
+}
+
+/**
+ * List the user's own preview documents created before the given time (previews shared by
+ * other users can be visible too and may still be in use)
+ */
+export async function findStalePreviews(
+  accessToken: string,
+  createdBefore: Date
+): Promise<Array<{ id: string; name: string }>> {
+  const [[key, value]] = Object.entries(PREVIEW_APP_PROPERTIES);
+  const query = [
+    `appProperties has { key='${key}' and value='${value}' }`,
+    `'me' in owners`,
+    `createdTime < '${createdBefore.toISOString()}'`,
+    'trashed = false'
+  ].join(' and ');
+
+  const files: Array<{ id: string; name: string }> = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      q: query,
+      fields: 'nextPageToken,files(id,name)',
+      pageSize: '100',
+      // Previews are copied into the user's My Drive; Shared Drive files have no owner to match
+      corpora: 'user'
+    });
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    const response = await fetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list preview documents: ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    files.push(...(data.files || []));
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  return files;
+}
+
+/**
+ * Trash every preview document of the user older than maxAgeMs (at least MIN_PREVIEW_MAX_AGE_MS);
+ * returns how many were trashed
+ */
+export async function purgeStalePreviews(
+  accessToken: string,
+  maxAgeMs: number = DEFAULT_PREVIEW_MAX_AGE_MS
+): Promise<number> {
+  try {
+    const stale = await findStalePreviews(
+      accessToken,
+      new Date(Date.now() - Math.max(maxAgeMs, MIN_PREVIEW_MAX_AGE_MS))
+    );
+
+    let trashed = 0;
+    for (const file of stale) {
+      try {
+        await trashDocument(file.id, accessToken);
+        trashed++;
+      } catch (error) {
+        console.error(`Error trashing preview ${file.id}:`, error);
+      }
+    }
+
+    return trashed;
+  } catch (error) {
+    console.error('Error purging stale previews:', error);
+    throw error;
+  }
+}
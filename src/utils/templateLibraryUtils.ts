@@ -0,0 +1,378 @@
+// Template library: which Google Docs are templates, their tags and favorites.
+// A doc is a template when it carries the docsGeneratorRole=template appProperty or sits in the
+// designated templates folder. Tags are appProperties too (one key per tag, so Drive can filter
+// on them); favorites use Drive's own per-user "starred" flag.
+// Listings cover Shared Drives too, and a location can be browsed folder by folder.
+
+import { GENERATED_APP_PROPERTIES, updateDocumentMetadata } from './advancedDocsUtils';
+import { fetchDocumentContent } from './googleDocsUtils';
+import { PREVIEW_APP_PROPERTIES } from './previewUtils';
+
+// Drive appProperties tag marking a document as a template
+export const TEMPLATE_APP_PROPERTIES = { docsGeneratorRole: 'template' };
+
+// Drive appProperties tag of the designated templates folder
+export const TEMPLATE_FOLDER_APP_PROPERTIES = { docsGeneratorRole: 'templateFolder' };
+
+const TAG_PROPERTY_PREFIX = 'docsGeneratorTag_';
+
+const DOCUMENT_MIME_TYPE = 'application/vnd.google-apps.document';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+export const TEMPLATE_PAGE_SIZE = 24;
+
+// Documents generated into the templates folder are not templates
+const COPY_ROLES = [GENERATED_APP_PROPERTIES, PREVIEW_APP_PROPERTIES].map(properties => Object.entries(properties)[0]);
+
+export interface TemplateFile {
+  id: string;
+  name: string;
+  thumbnailLink?: string;
+  modifiedTime: string;
+  mimeType: string;
+  starred?: boolean;
+  parents?: string[];
+  driveId?: string; // Set for files in a Shared Drive
+  appProperties?: Record<string, string>;
+}
+
+export interface SharedDrive {
+  id: string;
+  name: string;
+}
+
+// Where to look: everywhere the user has access (flat list) or one browsable location
+export type TemplateLocation =
+  | { kind: 'everywhere' }
+  | { kind: 'myDrive' }
+  | { kind: 'sharedWithMe' }
+  | { kind: 'sharedDrive'; driveId: string };
+
+export interface TemplateQuery {
+  scope: 'templates' | 'all'; // Marked templates (and the templates folder) or every Google Doc
+  location?: TemplateLocation; // Defaults to everywhere
+  folderId?: string; // Folder being browsed; the location's top level when omitted
+  search?: string;
+  tag?: string;
+  favoritesOnly?: boolean;
+  templateFolderId?: string | null;
+  pageToken?: string;
+}
+
+export interface TemplatePage {
+  templates: TemplateFile[];
+  nextPageToken?: string;
+}
+
+/**
+ * Quote a value for a Drive search query
+ */
+export function quoteDriveQuery(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Normalize a tag typed by the user: lowercase letters, digits and dashes
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export function getTemplateTags(file: TemplateFile): string[] {
+  return Object.keys(file.appProperties || {})
+    .filter(key => key.startsWith(TAG_PROPERTY_PREFIX))
+    .map(key => key.slice(TAG_PROPERTY_PREFIX.length))
+    .sort();
+}
+
+/**
+ * Whether a file belongs to the library (marked, or in the templates folder)
+ */
+export function isTemplate(file: TemplateFile, templateFolderId?: string | null): boolean {
+  const [[key, value]] = Object.entries(TEMPLATE_APP_PROPERTIES);
+  const isCopy = COPY_ROLES.some(([role, roleValue]) => file.appProperties?.[role] === roleValue);
+  return file.appProperties?.[key] === value
+    || (!!templateFolderId && !!file.parents?.includes(templateFolderId) && !isCopy);
+}
+
+export function isFolder(file: TemplateFile): boolean {
+  return file.mimeType === FOLDER_MIME_TYPE;
+}
+
+/**
+ * Whether a query lists a location folder by folder (subfolders first) rather than as a flat
+ * list; searching and filtering always cover the whole location
+ */
+export function isBrowsing(query: TemplateQuery): boolean {
+  return (query.location?.kind ?? 'everywhere') !== 'everywhere'
+    && !query.search?.trim() && !query.tag && !query.favoritesOnly;
+}
+
+/**
+ * List one page of templates (or of all Google Docs), newest first unless searching.
+ * When browsing, the folders of the current level are listed before the documents.
+ */
+export async function listTemplates(query: TemplateQuery, accessToken: string): Promise<TemplatePage> {
+  try {
+    const location = query.location ?? { kind: 'everywhere' };
+    const browsing = isBrowsing(query);
+
+    let documents = `mimeType = '${DOCUMENT_MIME_TYPE}'`;
+    if (query.scope === 'templates') {
+      const [[key, value]] = Object.entries(TEMPLATE_APP_PROPERTIES);
+      const marked = `appProperties has { key='${key}' and value='${value}' }`;
+      const notCopy = COPY_ROLES
+        .map(([role, roleValue]) => `not appProperties has { key='${role}' and value='${roleValue}' }`)
+        .join(' and ');
+      documents += query.templateFolderId
+        ? ` and (${marked} or (${quoteDriveQuery(query.templateFolderId)} in parents and ${notCopy}))`
+        : ` and ${marked}`;
+    }
+    const conditions = [
+      browsing ? `((${documents}) or mimeType = '${FOLDER_MIME_TYPE}')` : documents,
+      'trashed = false'
+    ];
+
+    if (browsing && query.folderId) {
+      conditions.push(`${quoteDriveQuery(query.folderId)} in parents`);
+    } else if (location.kind === 'myDrive') {
+      conditions.push(browsing ? `'root' in parents` : `'me' in owners`);
+    } else if (location.kind === 'sharedWithMe') {
+      conditions.push('sharedWithMe = true');
+    } else if (location.kind === 'sharedDrive' && browsing) {
+      // A Shared Drive's ID is also the ID of its top-level folder
+      conditions.push(`${quoteDriveQuery(location.driveId)} in parents`);
+    }
+    if (query.search?.trim()) {
+      const search = quoteDriveQuery(query.search.trim());
+      conditions.push(`(name contains ${search} or fullText contains ${search})`);
+    }
+    if (query.tag) {
+      conditions.push(`appProperties has { key=${quoteDriveQuery(TAG_PROPERTY_PREFIX + query.tag)} and value='true' }`);
+    }
+    if (query.favoritesOnly) {
+      conditions.push('starred = true');
+    }
+
+    const params = new URLSearchParams({
+      q: conditions.join(' and '),
+      fields: 'nextPageToken,files(id,name,thumbnailLink,modifiedTime,mimeType,starred,parents,driveId,appProperties)',
+      pageSize: String(TEMPLATE_PAGE_SIZE),
+      supportsAllDrives: 'true',
+      includeItemsFromAllDrives: 'true'
+    });
+    if (location.kind === 'sharedDrive') {
+      params.set('corpora', 'drive');
+      params.set('driveId', location.driveId);
+    } else if (location.kind === 'myDrive') {
+      params.set('corpora', 'user');
+    } else {
+      params.set('corpora', 'allDrives');
+    }
+    // Drive cannot sort full-text searches; they come back by relevance
+    if (!query.search?.trim()) {
+      params.set('orderBy', browsing ? 'folder,modifiedTime desc' : 'modifiedTime desc');
+    }
+    if (query.pageToken) {
+      params.set('pageToken', query.pageToken);
+    }
+
+    const response = await fetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      if (response.status === 403) {
+        throw new Error(`Google Drive API access denied. Please ensure the Google Drive API is enabled in Google Cloud Console. Error: ${response.statusText}`);
+      }
+      throw new Error(`Failed to load templates: ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return { templates: data.files || [], nextPageToken: data.nextPageToken };
+  } catch (error) {
+    console.error('Error listing templates:', error);
+    throw error;
+  }
+}
+
+/**
+ * List the Shared Drives the user is a member of, by name
+ */
+export async function listSharedDrives(accessToken: string): Promise<SharedDrive[]> {
+  try {
+    const drives: SharedDrive[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        fields: 'nextPageToken,drives(id,name)',
+        pageSize: '100'
+      });
+      if (pageToken) {
+        params.set('pageToken', pageToken);
+      }
+
+      const response = await fetch(`https://www.googleapis.com/drive/v3/drives?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to list Shared Drives: ${response.statusText} - ${errorText}`);
+      }
+
+      const data = await response.json();
+      drives.push(...(data.drives || []));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return drives.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error listing Shared Drives:', error);
+    throw error;
+  }
+}
+
+/**
+ * Write appProperties changes (null removes a key) and return the file as it is now
+ */
+async function updateAppProperties(
+  file: TemplateFile,
+  changes: Record<string, string | null>,
+  accessToken: string
+): Promise<TemplateFile> {
+  await updateDocumentMetadata(file.id, { appProperties: changes }, accessToken);
+
+  const appProperties = { ...file.appProperties };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete appProperties[key];
+    } else {
+      appProperties[key] = value;
+    }
+  }
+  return { ...file, appProperties };
+}
+
+/**
+ * Add a document to the library or remove it (tags are kept so re-marking restores them)
+ */
+export async function setTemplateMark(file: TemplateFile, marked: boolean, accessToken: string): Promise<TemplateFile> {
+  const [[key, value]] = Object.entries(TEMPLATE_APP_PROPERTIES);
+  return updateAppProperties(file, { [key]: marked ? value : null }, accessToken);
+}
+
+/**
+ * Replace a template's tags (normalized, see normalizeTag)
+ */
+export async function setTemplateTags(file: TemplateFile, tags: string[], accessToken: string): Promise<TemplateFile> {
+  const changes: Record<string, string | null> = {};
+  for (const tag of getTemplateTags(file)) {
+    changes[TAG_PROPERTY_PREFIX + tag] = null;
+  }
+  for (const tag of tags.map(normalizeTag).filter(Boolean)) {
+    changes[TAG_PROPERTY_PREFIX + tag] = 'true';
+  }
+  return updateAppProperties(file, changes, accessToken);
+}
+
+/**
+ * Star or unstar a template (favorites are per user)
+ */
+export async function setTemplateFavorite(file: TemplateFile, starred: boolean, accessToken: string): Promise<TemplateFile> {
+  await updateDocumentMetadata(file.id, { starred }, accessToken);
+  return { ...file, starred };
+}
+
+/**
+ * Find the designated templates folder, if the user has one
+ */
+export async function findTemplateFolder(accessToken: string): Promise<string | null> {
+  try {
+    const [[key, value]] = Object.entries(TEMPLATE_FOLDER_APP_PROPERTIES);
+    const params = new URLSearchParams({
+      q: `mimeType = '${FOLDER_MIME_TYPE}' and appProperties has { key='${key}' and value='${value}' } and trashed = false`,
+      fields: 'files(id)',
+      pageSize: '1',
+      // A team can keep its templates folder in a Shared Drive
+      corpora: 'allDrives',
+      includeItemsFromAllDrives: 'true',
+      supportsAllDrives: 'true'
+    });
+
+    const response = await fetch(`https://www.googleapis.com/drive/v3/files?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to find the templates folder: ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return data.files?.[0]?.id ?? null;
+  } catch (error) {
+    console.error('Error finding templates folder:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create the designated templates folder; Google Docs placed in it are listed as templates
+ */
+export async function createTemplateFolder(accessToken: string, name = 'Document Templates'): Promise<string> {
+  try {
+    const response = await fetch('https://www.googleapis.com/drive/v3/files?fields=id', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        name,
+        mimeType: FOLDER_MIME_TYPE,
+        appProperties: TEMPLATE_FOLDER_APP_PROPERTIES
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to create the templates folder: ${response.statusText} - ${errorText}`);
+    }
+
+    const { id } = await response.json();
+    return id;
+  } catch (error) {
+    console.error('Error creating templates folder:', error);
+    throw error;
+  }
+}
+
+// Variable counts by file ID and modification time, so an edited template is counted again
+const variableCounts = new Map<string, Promise<number>>();
+
+/**
+ * Number of variables in a template (read once per revision and cached for the session)
+ */
+export function countTemplateVariables(file: TemplateFile, accessToken: string): Promise<number> {
+  const key = `${file.id}@${file.modifiedTime}`;
+  let count = variableCounts.get(key);
+  if (!count) {
+    count = fetchDocumentContent(file.id, accessToken).then(content => content.variables.length);
+    // A failed count is retried the next time
+    count.catch(() => variableCounts.delete(key));
+    variableCounts.set(key, count);
+  }
+  return count;
+}
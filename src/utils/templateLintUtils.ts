@@ -0,0 +1,299 @@
+// Template checks: find placeholders that would silently misbehave when a document is generated
+// (broken braces, placeholders split across differently formatted runs, conflicting declarations,
+// unbalanced blocks and placeholders that can never be filled), before the template is used.
+
+import type { GoogleDocument } from '@/types/googleDocs';
+import {
+  EACH_OPEN_REGEX,
+  EACH_CLOSE_REGEX,
+  IF_OPEN_REGEX,
+  ELSE_REGEX,
+  IF_CLOSE_REGEX,
+  PLACEHOLDER_REGEX,
+  VARIABLE_TYPES,
+  parsePlaceholder,
+  type ParsedPlaceholder
+} from './googleDocsUtils';
+import { collectDocumentParagraphs, findTags, inSameFlow, type LocatedParagraph, type TagMatch } from './blockUtils';
+import { fetchDocumentJson } from './docsApiUtils';
+import { getExpressionReferences, parseExpression } from './expressionUtils';
+import { isKnownFilter, splitOutside } from './formatUtils';
+
+export type TemplateIssueKind = 'malformed' | 'unbalanced' | 'split' | 'conflict' | 'unused';
+
+export interface TemplateIssue {
+  kind: TemplateIssueKind;
+  severity: 'error' | 'warning'; // Errors break generation or leave text behind; warnings may surprise
+  message: string;
+  placeholder?: string; // The placeholder text as written, e.g. {{name}
+  location: string; // "Body", "Header", "Footer" or "Footnote", plus "table" for table cells
+  excerpt: string; // The paragraph the issue was found in
+}
+
+export interface TemplateLintReport {
+  issues: TemplateIssue[];
+  placeholderCount: number;
+}
+
+// Paragraph excerpts are cut to this many characters
+const EXCERPT_LENGTH = 80;
+
+// The type a placeholder declares, e.g. the "date" of {{due:date}}
+const DECLARED_TYPE_REGEX = /^[^:?=\s]+\s*\??\s*:\s*([a-zA-Z]+)/;
+
+type Reporter = (
+  kind: TemplateIssueKind,
+  severity: TemplateIssue['severity'],
+  paragraph: LocatedParagraph,
+  message: string,
+  placeholder?: string
+) => void;
+
+/**
+ * Check a template's Docs JSON (every segment) and report its problems, grouped by check
+ */
+export function lintTemplate(doc: GoogleDocument): TemplateLintReport {
+  // The table of contents is left out, so a heading's placeholders are checked once
+  const paragraphs = collectDocumentParagraphs(doc);
+  const segmentNames = getSegmentNames(doc);
+  const issues: TemplateIssue[] = [];
+  const reported = new Set<string>();
+
+  const report: Reporter = (kind, severity, paragraph, message, placeholder) => {
+    const location = (segmentNames.get(paragraph.segmentId) ?? 'Body') + (paragraph.cell ? ', table' : '');
+    const excerpt = paragraph.text.replace(/\s+/g, ' ').trim();
+    const issue: TemplateIssue = {
+      kind,
+      severity,
+      message,
+      placeholder,
+      location,
+      excerpt: excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH - 1)}…` : excerpt
+    };
+    // Checks can run into the same problem twice in one paragraph; the same problem in
+    // another paragraph is reported again
+    const key = `${paragraphs.indexOf(paragraph)}:${message}`;
+    if (!reported.has(key)) {
+      reported.add(key);
+      issues.push(issue);
+    }
+  };
+
+  const tags = findTags(paragraphs, PLACEHOLDER_REGEX);
+  checkBraces(paragraphs, report);
+  checkPlaceholders(tags, report);
+  checkSplitRuns(tags, report);
+  checkBlocks(paragraphs, report);
+
+  return { issues, placeholderCount: tags.length };
+}
+
+/**
+ * Fetch a template and check it (see lintTemplate)
+ */
+export async function checkTemplate(documentId: string, accessToken: string): Promise<TemplateLintReport> {
+  try {
+    return lintTemplate(await fetchDocumentJson(documentId, accessToken));
+  } catch (error) {
+    console.error('Error checking template:', error);
+    throw error;
+  }
+}
+
+function getSegmentNames(doc: GoogleDocument): Map<string | undefined, string> {
+  const names = new Map<string | undefined, string>();
+  for (const id of Object.keys(doc.headers || {})) names.set(id, 'Header');
+  for (const id of Object.keys(doc.footers || {})) names.set(id, 'Footer');
+  for (const id of Object.keys(doc.footnotes || {})) names.set(id, 'Footnote');
+  return names;
+}
+
+/**
+ * Braces left over once every well-formed {{...}} is taken out: {{name} or {name}}
+ */
+function checkBraces(paragraphs: LocatedParagraph[], report: Reporter): void {
+  for (const paragraph of paragraphs) {
+    const rest = paragraph.text.replace(new RegExp(PLACEHOLDER_REGEX.source, 'g'), match => ' '.repeat(match.length));
+    for (const match of rest.matchAll(/\{\{[^{}\n]{0,40}\}?|\{?[^{}\s]*\}\}/g)) {
+      const text = match[0].trim();
+      const message = text.startsWith('{{')
+        ? `"${text}" is missing its closing braces`
+        : `"${text}" is missing its opening braces`;
+      report('malformed', 'error', paragraph, message, text);
+    }
+  }
+}
+
+/**
+ * Placeholders that cannot be parsed, unknown types and filters, invalid formulas,
+ * declarations that disagree, and placeholders that are never filled
+ */
+function checkPlaceholders(tags: TagMatch[], report: Reporter): void {
+  const declarations = new Map<string, { parsed: ParsedPlaceholder; text: string }>();
+  const defined = new Set<string>();
+  const computed: Array<{ tag: TagMatch; parsed: ParsedPlaceholder }> = [];
+  let listName: string | null = null;
+
+  for (const tag of tags) {
+    const [text, content] = tag.match;
+    const { paragraph } = tag;
+
+    const eachMatch = text.match(EACH_OPEN_REGEX);
+    if (eachMatch) {
+      listName = eachMatch[1];
+      defined.add(listName);
+      continue;
+    }
+    if (EACH_CLOSE_REGEX.test(text)) {
+      listName = null;
+      continue;
+    }
+    const ifMatch = text.match(IF_OPEN_REGEX);
+    if (ifMatch) {
+      defined.add(ifMatch[1]);
+      continue;
+    }
+    if (ELSE_REGEX.test(text) || IF_CLOSE_REGEX.test(text)) {
+      continue;
+    }
+
+    if (content.includes('{')) {
+      report('malformed', 'error', paragraph, `"${text}" contains a placeholder that is missing its closing braces`, text);
+      continue;
+    }
+    const parsed = parsePlaceholder(content);
+    if (!parsed) {
+      report('malformed', 'error', paragraph, /^\s*[#/]/.test(content)
+        ? `"${text}" is not a known block tag (use #each, #if, else, /each or /if)`
+        : `"${text}" cannot be read as a placeholder (names cannot contain spaces)`, text);
+      continue;
+    }
+    defined.add(parsed.name);
+
+    const [head] = splitOutside(content, '|');
+    const declaredType = head.trim().match(DECLARED_TYPE_REGEX)?.[1];
+    if (declaredType && !(VARIABLE_TYPES as readonly string[]).includes(declaredType.toLowerCase())) {
+      report('malformed', 'warning', paragraph, `"${text}" has the unknown type "${declaredType}" and is treated as text`, text);
+    }
+    for (const filter of parsed.filters || []) {
+      if (!isKnownFilter(filter.name)) {
+        report('malformed', 'warning', paragraph, `"${text}" uses the unknown filter "${filter.name}", which is ignored`, text);
+      }
+    }
+    if (parsed.expression) {
+      try {
+        parseExpression(parsed.expression);
+        computed.push({ tag, parsed });
+      } catch (error) {
+        report('malformed', 'error', paragraph, `"${text}" has an invalid formula: ${(error as Error).message}`, text);
+      }
+    }
+    if (parsed.type === 'table' && !paragraph.cell) {
+      report('unused', 'warning', paragraph, `"${text}" is not inside a table, so no rows are ever added for it`, text);
+    }
+
+    // The form field comes from the first occurrence, so later declarations that disagree are
+    // lost; a later bare {{name}} declares nothing and agrees with everything
+    const key = `${listName ?? ''}.${parsed.name}`;
+    const declared = !!declaredType || parsed.type !== 'text';
+    const previous = declarations.get(key);
+    if (!previous) {
+      declarations.set(key, { parsed, text });
+    } else if (declared && previous.parsed.type !== parsed.type) {
+      report('conflict', 'warning', paragraph,
+        `"${text}" declares the type ${parsed.type}, but the form uses ${previous.parsed.type} from "${previous.text}", which comes first`,
+        text);
+    } else if (
+      parsed.type === 'select' && parsed.options && previous.parsed.options &&
+      parsed.options.join('|') !== previous.parsed.options.join('|')
+    ) {
+      report('conflict', 'warning', paragraph,
+        `"${text}" lists other choices than "${previous.text}", which comes first and sets the form's choices`, text);
+    }
+  }
+
+  for (const { tag, parsed } of computed) {
+    const unknown = getExpressionReferences(parsed.expression!).filter(name => !defined.has(name));
+    if (unknown.length > 0) {
+      report('unused', 'warning', tag.paragraph,
+        `"${tag.match[0]}" reads ${unknown.map(name => `"${name}"`).join(', ')}, which no placeholder provides, so it always stays empty`,
+        tag.match[0]);
+    }
+  }
+}
+
+/**
+ * Placeholders whose characters carry different formatting. They are still found, but the
+ * filled value takes the style of the first character only.
+ */
+function checkSplitRuns(tags: TagMatch[], report: Reporter): void {
+  for (const tag of tags) {
+    const runs = (tag.paragraph.paragraph.elements || []).filter(element =>
+      element.textRun &&
+      (element.startIndex ?? 0) < tag.endIndex &&
+      (element.endIndex ?? 0) > tag.startIndex
+    );
+    if (runs.length > 1) {
+      report('split', 'warning', tag.paragraph,
+        `"${tag.match[0]}" is formatted in ${runs.length} different ways; the filled value takes the formatting of its first character`,
+        tag.match[0]);
+    }
+  }
+}
+
+/**
+ * {{#each}} and {{#if}} tags without a partner, or whose partner sits in another text flow
+ */
+function checkBlocks(paragraphs: LocatedParagraph[], report: Reporter): void {
+  const segments = new Map<string | undefined, LocatedParagraph[]>();
+  for (const paragraph of paragraphs) {
+    segments.set(paragraph.segmentId, [...(segments.get(paragraph.segmentId) || []), paragraph]);
+  }
+
+  for (const segmentParagraphs of segments.values()) {
+    const kinds = [
+      { name: 'each', open: EACH_OPEN_REGEX, close: EACH_CLOSE_REGEX },
+      { name: 'if', open: IF_OPEN_REGEX, close: IF_CLOSE_REGEX }
+    ];
+
+    for (const { name, open, close } of kinds) {
+      const tags = [
+        ...findTags(segmentParagraphs, open).map(tag => ({ tag, isOpen: true })),
+        ...findTags(segmentParagraphs, close).map(tag => ({ tag, isOpen: false }))
+      ].sort((a, b) => a.tag.startIndex - b.tag.startIndex);
+      const stack: TagMatch[] = [];
+
+      for (const { tag, isOpen } of tags) {
+        if (isOpen) {
+          stack.push(tag);
+          continue;
+        }
+        const openTag = stack.pop();
+        if (!openTag) {
+          report('unbalanced', 'error', tag.paragraph, `"${tag.match[0]}" has no matching {{#${name}}}`, tag.match[0]);
+        } else if (!inSameFlow(openTag, tag) && !(name === 'each' && inOneTableRow(openTag, tag))) {
+          report('unbalanced', 'error', openTag.paragraph,
+            `"${openTag.match[0]}" and its "${tag.match[0]}" must be in the same text flow ` +
+            `(both outside tables or in the same cell${name === 'each' ? ', or in cells of one table row' : ''})`,
+            openTag.match[0]);
+        }
+      }
+      for (const openTag of stack) {
+        report('unbalanced', 'error', openTag.paragraph, `"${openTag.match[0]}" is never closed with {{/${name}}}`, openTag.match[0]);
+      }
+    }
+
+    const elses = findTags(segmentParagraphs, ELSE_REGEX);
+    if (elses.length > 0 && findTags(segmentParagraphs, IF_OPEN_REGEX).length === 0) {
+      report('unbalanced', 'error', elses[0].paragraph, '"{{else}}" is only allowed inside an {{#if}} section', elses[0].match[0]);
+    }
+  }
+}
+
+function inOneTableRow(a: TagMatch, b: TagMatch): boolean {
+  const cellA = a.paragraph.cell;
+  const cellB = b.paragraph.cell;
+  return !!cellA && !!cellB &&
+    cellA.tableStartIndex === cellB.tableStartIndex &&
+    cellA.rowIndex === cellB.rowIndex;
+}
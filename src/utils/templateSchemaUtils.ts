@@ -0,0 +1,314 @@
+// Optional form schema of a template: display labels, help text, sections, field order,
+// regex validation and required/optional status. It is stored as a JSON sidecar file in the
+// template's folder; the template points at it with the docsGeneratorSchemaId appProperty,
+// so the schema is found by everyone who can read the template and the sidecar.
+
+import type { TemplateVariable } from './googleDocsUtils';
+import { updateDocumentMetadata } from './advancedDocsUtils';
+
+// appProperty of a template holding the ID of its schema file
+export const SCHEMA_ID_PROPERTY = 'docsGeneratorSchemaId';
+
+// Drive appProperties tag of schema files
+export const SCHEMA_APP_PROPERTIES = { docsGeneratorRole: 'schema' };
+
+export interface SchemaSection {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface FieldSchema {
+  label?: string;
+  help?: string;
+  section?: string; // ID of a section in TemplateSchema.sections
+  order?: number; // Lower comes first; fields without an order keep document order after those with one
+  pattern?: string; // Regular expression the whole value must match
+  patternMessage?: string;
+  required?: boolean; // Overrides {{name?}}
+}
+
+export interface TemplateSchema {
+  sections?: SchemaSection[];
+  // Keyed by variable name; fields of {{#each list}} sections are keyed "list.field"
+  fields?: Record<string, FieldSchema>;
+}
+
+const FIELD_KEYS: Record<keyof FieldSchema, 'string' | 'number' | 'boolean'> = {
+  label: 'string',
+  help: 'string',
+  section: 'string',
+  order: 'number',
+  pattern: 'string',
+  patternMessage: 'string',
+  required: 'boolean'
+};
+
+/**
+ * Label of a variable without a schema label: "client_name" becomes "Client Name"
+ */
+export function getDefaultLabel(name: string): string {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+/**
+ * Validate untrusted schema JSON; throws an Error naming the first problem
+ */
+export function parseTemplateSchema(input: unknown): TemplateSchema {
+  if (!isObject(input)) {
+    throw new Error('The schema must be a JSON object');
+  }
+  const unknownKey = Object.keys(input).find(key => key !== 'sections' && key !== 'fields');
+  if (unknownKey) {
+    throw new Error(`Unknown schema property "${unknownKey}" (expected "sections" and "fields")`);
+  }
+
+  const sections: SchemaSection[] = [];
+  if (input.sections !== undefined) {
+    if (!Array.isArray(input.sections)) {
+      throw new Error('"sections" must be a list');
+    }
+    for (const section of input.sections) {
+      if (!isObject(section) || typeof section.id !== 'string' || !section.id || typeof section.title !== 'string') {
+        throw new Error('Every section needs an "id" and a "title"');
+      }
+      if (section.description !== undefined && typeof section.description !== 'string') {
+        throw new Error(`The description of section "${section.id}" must be text`);
+      }
+      if (sections.some(other => other.id === section.id)) {
+        throw new Error(`Section "${section.id}" is defined twice`);
+      }
+      sections.push({ id: section.id, title: section.title, description: section.description as string | undefined });
+    }
+  }
+
+  const fields: Record<string, FieldSchema> = {};
+  if (input.fields !== undefined) {
+    if (!isObject(input.fields)) {
+      throw new Error('"fields" must map variable names to field settings');
+    }
+    for (const [name, field] of Object.entries(input.fields)) {
+      if (!isObject(field)) {
+        throw new Error(`The settings of "${name}" must be an object`);
+      }
+      for (const [key, value] of Object.entries(field)) {
+        const expected = FIELD_KEYS[key as keyof FieldSchema];
+        if (!expected) {
+          throw new Error(`Unknown setting "${key}" for "${name}"`);
+        }
+        if (typeof value !== expected) {
+          throw new Error(`"${key}" of "${name}" must be a ${expected === 'string' ? 'text' : expected}`);
+        }
+      }
+      const settings = field as FieldSchema;
+      if (settings.section && !sections.some(section => section.id === settings.section)) {
+        throw new Error(`"${name}" refers to the unknown section "${settings.section}"`);
+      }
+      if (settings.pattern) {
+        try {
+          new RegExp(settings.pattern);
+        } catch {
+          throw new Error(`The pattern of "${name}" is not a valid regular expression`);
+        }
+      }
+      fields[name] = { ...settings };
+    }
+  }
+
+  return { sections, fields };
+}
+
+/**
+ * Merge a schema into the variables found in the template: labels, help, sections,
+ * patterns and required status are copied onto the variables, which are then sorted by order
+ */
+export function applyTemplateSchema(variables: TemplateVariable[], schema: TemplateSchema | null): TemplateVariable[] {
+  if (!schema?.fields) {
+    return variables;
+  }
+  const fields = schema.fields;
+
+  // Array.prototype.sort is stable, so unordered fields keep their document order
+  const sortByOrder = (list: TemplateVariable[], prefix: string): TemplateVariable[] => {
+    const order = (variable: TemplateVariable) => fields[prefix + variable.name]?.order ?? Number.MAX_SAFE_INTEGER;
+    return [...list].sort((a, b) => order(a) - order(b));
+  };
+
+  const merge = (variable: TemplateVariable, key: string): TemplateVariable => {
+    const field = fields[key];
+    const merged = { ...variable };
+    if (field?.label) merged.label = field.label;
+    if (field?.help) merged.help = field.help;
+    if (field?.section) merged.section = field.section;
+    if (field?.pattern) merged.pattern = field.pattern;
+    if (field?.patternMessage) merged.patternMessage = field.patternMessage;
+    if (field?.required !== undefined) merged.optional = !field.required;
+    if (variable.fields) {
+      merged.fields = sortByOrder(variable.fields, `${variable.name}.`).map(item => merge(item, `${variable.name}.${item.name}`));
+    }
+    return merged;
+  };
+
+  return sortByOrder(variables, '').map(variable => merge(variable, variable.name));
+}
+
+/**
+ * A starting schema listing every variable of a template with its default label
+ */
+export function createSchemaSkeleton(variables: TemplateVariable[]): TemplateSchema {
+  const fields: Record<string, FieldSchema> = {};
+  // Checkboxes, calculated values and lists (rows may be removed) are never required
+  const entry = (variable: TemplateVariable): FieldSchema => ({
+    label: variable.label || getDefaultLabel(variable.name),
+    ...(variable.expression || variable.type === 'boolean' || variable.type === 'list' ? {} : { required: !variable.optional })
+  });
+
+  for (const variable of variables) {
+    fields[variable.name] = entry(variable);
+    for (const field of variable.fields || []) {
+      fields[`${variable.name}.${field.name}`] = entry(field);
+    }
+  }
+  return { sections: [], fields };
+}
+
+/**
+ * Read a template's schema; null when it has none (or its sidecar file is gone)
+ */
+export async function loadTemplateSchema(templateId: string, accessToken: string): Promise<TemplateSchema | null> {
+  try {
+    const schemaId = await getSchemaFileId(templateId, accessToken);
+    if (!schemaId) {
+      return null;
+    }
+
+    const response = await fetch(
+      `https://www.googleapis.com/drive/v3/files/${encodeURIComponent(schemaId)}?alt=media&supportsAllDrives=true`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        }
+      }
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to read the template schema: ${response.statusText} - ${errorText}`);
+    }
+
+    return parseTemplateSchema(await response.json());
+  } catch (error) {
+    console.error('Error loading template schema:', error);
+    throw error;
+  }
+}
+
+/**
+ * Store a template's schema, creating the sidecar file next to the template the first time
+ * (which needs edit access to the template)
+ */
+export async function saveTemplateSchema(
+  templateId: string,
+  templateName: string,
+  schema: TemplateSchema,
+  accessToken: string
+): Promise<void> {
+  try {
+    const content = JSON.stringify(parseTemplateSchema(schema), null, 2);
+    const schemaId = await getSchemaFileId(templateId, accessToken);
+
+    if (schemaId) {
+      const response = await fetch(
+        `https://www.googleapis.com/upload/drive/v3/files/${encodeURIComponent(schemaId)}?uploadType=media&supportsAllDrives=true`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: content
+        }
+      );
+      if (response.ok) {
+        return;
+      }
+      // A deleted sidecar is created again below
+      if (response.status !== 404) {
+        const errorText = await response.text();
+        throw new Error(`Failed to save the template schema: ${response.statusText} - ${errorText}`);
+      }
+    }
+
+    const metadata = {
+      name: `${templateName} (form schema).json`,
+      mimeType: 'application/json',
+      parents: await getParents(templateId, accessToken),
+      appProperties: { ...SCHEMA_APP_PROPERTIES, docsGeneratorTemplateId: templateId }
+    };
+    const body = new FormData();
+    body.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
+    body.append('file', new Blob([content], { type: 'application/json' }));
+
+    const response = await fetch(
+      'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id&supportsAllDrives=true',
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to create the template schema: ${response.statusText} - ${errorText}`);
+    }
+
+    const { id } = await response.json();
+    await updateDocumentMetadata(templateId, { appProperties: { [SCHEMA_ID_PROPERTY]: id } }, accessToken);
+  } catch (error) {
+    console.error('Error saving template schema:', error);
+    throw error;
+  }
+}
+
+async function getTemplateFields(
+  templateId: string,
+  fields: string,
+  accessToken: string
+): Promise<{ appProperties?: Record<string, string>; parents?: string[] }> {
+  const response = await fetch(
+    `https://www.googleapis.com/drive/v3/files/${encodeURIComponent(templateId)}?fields=${fields}&supportsAllDrives=true`,
+    {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      }
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to read the template: ${response.statusText} - ${errorText}`);
+  }
+
+  return response.json();
+}
+
+async function getSchemaFileId(templateId: string, accessToken: string): Promise<string | null> {
+  const { appProperties } = await getTemplateFields(templateId, 'appProperties', accessToken);
+  return appProperties?.[SCHEMA_ID_PROPERTY] || null;
+}
+
+async function getParents(templateId: string, accessToken: string): Promise<string[] | undefined> {
+  const { parents } = await getTemplateFields(templateId, 'parents', accessToken);
+  return parents;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}